@@ -1,24 +1,120 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { User } from 'firebase/auth';
-import { auth, logout, getUserDocument, updateUserDocument, UserDocument } from './services/firebase';
-import { LogEntry, ProcessingResult } from './types';
+import { Link } from 'react-router-dom';
+import {
+  auth, logout, getUserDocument, updateUserDocument, savePrompts, subscribeToPromptCollection, sharedPromptKey, pruneSharedEnabled, subscribeToPricing, recordUsage, subscribeToUsageTotals, subscribeToUsageLedger,
+  UserDocument, PromptHistoryEntry, PromptCollection, UsageLedgerEntry
+} from './services/firebase';
+import { LogEntry, ProcessingResult, RefinementVersion, RunMode, GenerationDiagnostics, GenerationUsage } from './types';
 import { Terminal } from './components/Terminal';
 import { PromptEditor } from './components/PromptEditor';
-import { generateImageFromReference, fileToBase64 } from './services/geminiService';
+import { PromptHistoryPanel } from './components/PromptHistoryPanel';
+import { PromptLibraryDialog, PromptLibraryState } from './components/PromptLibraryDialog';
+import { SharedCollections } from './components/SharedCollections';
+import { GalleryView } from './components/GalleryView';
+import { ResultCard, describeSources } from './components/ResultCard';
+import { RefinePanel } from './components/RefinePanel';
+import { PreprocessSettings } from './components/PreprocessSettings';
+import { DownloadSettings } from './components/DownloadSettings';
+import { MetadataInspector } from './components/MetadataInspector';
+import { BudgetSettings } from './components/BudgetSettings';
+import { UsageReports } from './components/UsageReports';
+import { VariablesPanel, VariableSettings, VariableTable } from './components/VariablesPanel';
+import { ManifestImport } from './components/ManifestImport';
+import { ReferenceCache, PreprocessOptions, DEFAULT_PREPROCESS_OPTIONS } from './services/imagePreprocessor';
+import { buildTasks, buildManifestTasks, buildPromptText } from './services/taskBuilder';
+import { downloadBlob, dataUrlToBlob } from './services/download';
+import { collectResultItems, buildResultsZip, resultToExportItem, exportFiles } from './services/resultExport';
+import { MetadataOptions, DEFAULT_METADATA_OPTIONS } from './services/imageMetadata';
+import {
+  BudgetSettings as BudgetSettingsValue, DEFAULT_BUDGET_SETTINGS, UsageSample, BudgetGuard,
+  addUsageSample, estimateRunCost, estimateTaskCost, spentToday, startOfToday
+} from './services/budget';
+import { PricingTable, EMPTY_PRICING, findRate } from './services/pricing';
+import { DEFAULT_FILENAME_TEMPLATE, formatFileName, uniqueFileName } from './services/fileNaming';
+import { saveGalleryEntry } from './services/gallery';
+import { Manifest, parseManifest } from './services/manifest';
+import { VariableSources, extractVariables, findUnresolvedVariables, parseFileTable, parseRunValues } from './services/promptTemplate';
+import { getModelOptions, getProviderForModel, isKnownModel, DEFAULT_MODEL } from './services/providers';
+import { ASPECT_RATIOS, IMAGE_SIZES, ConversationTurn, GenerationError } from './services/imageProvider';
 import { TokenUsage, ModelType } from './services/TokenUsage';
-import { FolderOpen, Play, Download, Image as ImageIcon, CheckCircle, AlertCircle, Loader2, Key, Trash2, ChevronDown, X } from 'lucide-react';
+import { PromptData, MAX_VARIATIONS } from './models/Prompt';
+import { Combo, findActiveCombo } from './models/Combo';
+import { runWithConcurrency, withRetry, BatchController, DEFAULT_RETRY_OPTIONS, MIN_CONCURRENCY, MAX_CONCURRENCY } from './services/batchRunner';
+import { FolderOpen, Play, Pause, Square, Download, WandSparkles, Image as ImageIcon, CheckCircle, Loader2, Key, Trash2, ChevronDown, X, Images, FileArchive, FileSearch, ChartColumn, Shield } from 'lucide-react';
 
 const STORAGE_KEY_ASPECT_RATIO = 'banana_pic_gen_aspect_ratio';
 const STORAGE_KEY_IMAGE_SIZE = 'banana_pic_gen_image_size';
 const STORAGE_KEY_MODEL = 'banana_pic_gen_model';
 const STORAGE_KEY_TOKEN_USAGE = 'banana_pic_gen_token_usage';
 const STORAGE_KEY_TEMPERATURE = 'banana_pic_gen_temperature';
+const STORAGE_KEY_RUN_MODE = 'banana_pic_gen_run_mode';
+const STORAGE_KEY_CONCURRENCY = 'banana_pic_gen_concurrency';
+const STORAGE_KEY_VARIATIONS = 'banana_pic_gen_variations';
+const STORAGE_KEY_PREPROCESS = 'banana_pic_gen_preprocess';
+const STORAGE_KEY_VARIABLES = 'banana_pic_gen_variables';
+const STORAGE_KEY_FILENAME_TEMPLATE = 'banana_pic_gen_filename_template';
+const STORAGE_KEY_METADATA = 'banana_pic_gen_metadata';
+const STORAGE_KEY_BUDGET = 'banana_pic_gen_budget';
+const STORAGE_KEY_USAGE_SAMPLES = 'banana_pic_gen_usage_samples';
+const STORAGE_KEY_PENDING_USAGE = 'banana_pic_gen_pending_usage';
+
+// Ledger writes that failed are kept and retried after this delay
+const USAGE_RETRY_DELAY_MS = 30_000;
+
+// A generation not yet written to the cloud ledger
+interface PendingUsage {
+  id: string;
+  email: string;
+  entry: Omit<UsageLedgerEntry, 'id'>;
+}
+
+// The retry queue is shared by every tab through localStorage
+const loadPendingUsage = (): PendingUsage[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY_PENDING_USAGE);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse pending usage", e);
+  }
+  return [];
+};
+
+// Change the stored queue as it is now, so entries queued by other tabs are kept
+const updatePendingUsage = (change: (queue: PendingUsage[]) => PendingUsage[]): PendingUsage[] => {
+  const next = change(loadPendingUsage());
+  localStorage.setItem(STORAGE_KEY_PENDING_USAGE, JSON.stringify(next));
+  return next;
+};
+
+const MODEL_OPTIONS = getModelOptions();
 
-const MODEL_OPTIONS = [
-  { label: "Nano Banana Pro", value: "gemini-3-pro-image-preview" },
-  { label: "Nano Banana", value: "gemini-2.5-flash-image" }
+const RUN_MODE_OPTIONS: Array<{ label: string; value: RunMode }> = [
+  { label: "Combined", value: "combined" },
+  { label: "Per file", value: "per_file" },
+  { label: "Text only", value: "text_only" }
 ];
 
+// Stored whole number clamped to min..max, falling back when missing or corrupt
+const loadStoredInt = (key: string, min: number, max: number, fallback: number): number => {
+  const parsed = parseInt(localStorage.getItem(key) || '', 10);
+  return isNaN(parsed) ? fallback : Math.min(max, Math.max(min, parsed));
+};
+
+// Group results by prompt/reference pair, keeping task order
+const groupResults = (results: ProcessingResult[]): ProcessingResult[][] => {
+  const groups = new Map<string, ProcessingResult[]>();
+  results.forEach(res => {
+    const group = groups.get(res.groupId);
+    if (group) {
+      group.push(res);
+    } else {
+      groups.set(res.groupId, [res]);
+    }
+  });
+  return Array.from(groups.values());
+};
+
 // Helper to get user photo URL with Facebook fallback
 const getUserPhotoURL = (user: User | null): string | null => {
   if (!user) return null;
@@ -44,7 +140,7 @@ const getUserPhotoURL = (user: User | null): string | null => {
   return null;
 };
 
-const App: React.FC = () => {
+const App: React.FC<{ isAdmin?: boolean }> = ({ isAdmin = false }) => {
   // Get user from auth (already authenticated via AuthWrapper)
   const user = auth?.currentUser;
 
@@ -52,6 +148,12 @@ const App: React.FC = () => {
   const [userDoc, setUserDoc] = useState<UserDocument | null>(null);
   const [isLoadingUserDoc, setIsLoadingUserDoc] = useState(true);
   const [isSavingUserDoc, setIsSavingUserDoc] = useState(false);
+  const [showPromptHistory, setShowPromptHistory] = useState(false);
+  const [showPromptLibrary, setShowPromptLibrary] = useState(false);
+  // Subscribed team collections by id, kept live with onSnapshot
+  const [sharedCollections, setSharedCollections] = useState<Record<string, PromptCollection>>({});
+  // Bumped to reload the prompt editor from userDoc
+  const [promptEditorKey, setPromptEditorKey] = useState(0);
 
   // App State
   const [hasKey, setHasKey] = useState(false);
@@ -59,6 +161,8 @@ const App: React.FC = () => {
   const [results, setResults] = useState<ProcessingResult[]>([]);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const batchControllerRef = useRef<BatchController | null>(null);
   const [showConfig, setShowConfig] = useState(false);
   const [tokenUsage, setTokenUsage] = useState<TokenUsage>(() => {
     return TokenUsage.fromLocalStorage(STORAGE_KEY_TOKEN_USAGE);
@@ -70,31 +174,122 @@ const App: React.FC = () => {
     return localStorage.getItem(STORAGE_KEY_IMAGE_SIZE) || "2K";
   });
   const [selectedModel, setSelectedModel] = useState(() => {
-    return localStorage.getItem(STORAGE_KEY_MODEL) || "gemini-2.5-flash-image";
+    const saved = localStorage.getItem(STORAGE_KEY_MODEL);
+    return saved && isKnownModel(saved) ? saved : DEFAULT_MODEL;
   });
   const [temperature, setTemperature] = useState(() => {
     const saved = localStorage.getItem(STORAGE_KEY_TEMPERATURE);
     return saved ? parseFloat(saved) : 1.0;
   });
+  const [runMode, setRunMode] = useState<RunMode>(() => {
+    const saved = localStorage.getItem(STORAGE_KEY_RUN_MODE);
+    return RUN_MODE_OPTIONS.find(opt => opt.value === saved)?.value ?? "combined";
+  });
+  const [concurrency, setConcurrency] = useState(() => loadStoredInt(STORAGE_KEY_CONCURRENCY, MIN_CONCURRENCY, MAX_CONCURRENCY, 1));
+  const [variations, setVariations] = useState(() => loadStoredInt(STORAGE_KEY_VARIATIONS, 1, MAX_VARIATIONS, 1));
+  const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY_PREPROCESS);
+      if (saved) return { ...DEFAULT_PREPROCESS_OPTIONS, ...JSON.parse(saved) };
+    } catch (e) {
+      console.error("Failed to parse saved preprocess options", e);
+    }
+    return DEFAULT_PREPROCESS_OPTIONS;
+  });
+  const [variableSettings, setVariableSettings] = useState<VariableSettings>(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY_VARIABLES);
+      if (saved) return { values: '', filenamePattern: '', ...JSON.parse(saved) };
+    } catch (e) {
+      console.error("Failed to parse saved variables", e);
+    }
+    return { values: '', filenamePattern: '' };
+  });
+  const [variableTable, setVariableTable] = useState<VariableTable | null>(null);
+  const [fileNameTemplate, setFileNameTemplate] = useState(() => {
+    return localStorage.getItem(STORAGE_KEY_FILENAME_TEMPLATE) || DEFAULT_FILENAME_TEMPLATE;
+  });
+  const [metadataOptions, setMetadataOptions] = useState<MetadataOptions>(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY_METADATA);
+      if (saved) return { ...DEFAULT_METADATA_OPTIONS, ...JSON.parse(saved) };
+    } catch (e) {
+      console.error("Failed to parse saved metadata options", e);
+    }
+    return DEFAULT_METADATA_OPTIONS;
+  });
+  const [budgetSettings, setBudgetSettings] = useState<BudgetSettingsValue>(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY_BUDGET);
+      if (saved) return { ...DEFAULT_BUDGET_SETTINGS, ...JSON.parse(saved) };
+    } catch (e) {
+      console.error("Failed to parse saved budget", e);
+    }
+    return DEFAULT_BUDGET_SETTINGS;
+  });
+  // Generations recorded in the cloud ledger since the start of the day, from every tab and device
+  const [todayLedger, setTodayLedger] = useState<UsageLedgerEntry[]>([]);
+  // Token usage of recent generations, used for the pre-run estimate
+  const [usageSamples, setUsageSamples] = useState<UsageSample[]>(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY_USAGE_SAMPLES);
+      if (saved) return JSON.parse(saved);
+    } catch (e) {
+      console.error("Failed to parse saved usage samples", e);
+    }
+    return [];
+  });
+  // Ledger writes waiting for a retry, kept across reloads so no spend is lost
+  const [pendingUsage, setPendingUsage] = useState<PendingUsage[]>(loadPendingUsage);
+  // Names handed out by single downloads this session, so repeated names get a suffix
+  const downloadedNamesRef = useRef<Set<string>>(new Set());
+  // Imported batch manifest, replaces the prompts x files expansion while loaded
+  const [manifest, setManifest] = useState<Manifest | null>(null);
+  // Prepared reference pictures of the current batch (also used by refinements)
+  const referenceCacheRef = useRef<ReferenceCache | null>(null);
 
   // PWA Install State
   const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
   const [isIOS, setIsIOS] = useState(false);
 
+  const [showGallery, setShowGallery] = useState(false);
+  const [showInspector, setShowInspector] = useState(false);
+  const [showReports, setShowReports] = useState(false);
+  // Active pricing document, kept in state so costs and estimates re-render when it changes
+  const [pricingDoc, setPricingDoc] = useState<PricingTable | null>(null); // null until the first snapshot
+  const [isZipping, setIsZipping] = useState(false);
+
   // Lightbox State
   const [lightboxImage, setLightboxImage] = useState<ProcessingResult | null>(null);
 
-  // Close lightbox on ESC key
+  // Refinement State (id, so the panel follows live updates of the result)
+  const [refineResultId, setRefineResultId] = useState<string | null>(null);
+  const refineResult = refineResultId ? results.find(r => r.id === refineResultId) : undefined;
+
+  // Close refinement panel, then lightbox, then dialogs and gallery, on ESC key
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && lightboxImage) {
+      if (e.key !== 'Escape') return;
+      if (refineResultId) {
+        setRefineResultId(null);
+      } else if (lightboxImage) {
         setLightboxImage(null);
+      } else if (showPromptHistory) {
+        setShowPromptHistory(false);
+      } else if (showPromptLibrary) {
+        setShowPromptLibrary(false);
+      } else if (showReports) {
+        setShowReports(false);
+      } else if (showInspector) {
+        setShowInspector(false);
+      } else if (showGallery) {
+        setShowGallery(false);
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [lightboxImage]);
+  }, [lightboxImage, refineResultId, showPromptHistory, showPromptLibrary, showReports, showInspector, showGallery]);
 
   // Fetch user document on mount
   useEffect(() => {
@@ -119,14 +314,34 @@ const App: React.FC = () => {
     fetchUserDoc();
   }, [user?.email]);
 
+  // Follow the admin-maintained pricing document; without one the bundled rates apply
+  useEffect(() => {
+    if (!user?.email) return;
+    const unsubscribe = subscribeToPricing(
+      table => {
+        setPricingDoc(table ?? EMPTY_PRICING);
+        if (table) log(`Pricing v${table.version} loaded (${table.entries.length} rate(s)).`, "info");
+      },
+      () => {
+        setPricingDoc(prev => prev ?? EMPTY_PRICING);
+        log("Could not load the pricing document, using bundled rates.", "warning");
+      }
+    );
+    return () => {
+      unsubscribe();
+      setPricingDoc(null);
+    };
+  }, [user?.email]);
+
   // Save prompts to Firestore
-  const handleSavePrompts = useCallback(async (prompts: Array<{ name: string; prompt: string; enabled: boolean; skip_beforeafter_prompt: boolean }>, promptBefore: string, promptAfter: string) => {
+  const handleSavePrompts = useCallback(async (prompts: PromptData[], promptBefore: string, promptAfter: string) => {
     if (!user?.email) return;
 
     console.log('[handleSavePrompts] Saving prompts:', prompts);
     setIsSavingUserDoc(true);
     try {
-      await updateUserDocument(user.email, { prompts, prompt_before: promptBefore, prompt_after: promptAfter });
+      // Every save is also kept as a version in the history
+      await savePrompts(user.email, { savedAt: Date.now(), prompts, prompt_before: promptBefore, prompt_after: promptAfter });
       setUserDoc(prev => prev ? { ...prev, prompts, prompt_before: promptBefore, prompt_after: promptAfter } : null);
       log("Prompts saved to cloud.", "success");
     } catch (error) {
@@ -137,8 +352,109 @@ const App: React.FC = () => {
     }
   }, [user?.email]);
 
+  // Replace the prompts from outside the editor (history restore); remounting the editor loads them
+  const replacePrompts = (prompts: PromptData[], promptBefore: string, promptAfter: string) => {
+    setUserDoc(prev => prev ? { ...prev, prompts, prompt_before: promptBefore, prompt_after: promptAfter } : null);
+    setPromptEditorKey(k => k + 1);
+    handleSavePrompts(prompts, promptBefore, promptAfter);
+  };
+
+  const handleRestoreVersion = (entry: PromptHistoryEntry) => {
+    replacePrompts(entry.prompts, entry.prompt_before ?? '', entry.prompt_after ?? '');
+    setShowPromptHistory(false);
+    log(`Restored prompts from ${new Date(entry.savedAt).toLocaleString()}.`, "success");
+  };
+
+  const handleImportLibrary = (next: PromptLibraryState, summary: string) => {
+    replacePrompts(next.prompts, next.prompt_before, next.prompt_after);
+    handleSaveCombos(next.combos);
+    setShowPromptLibrary(false);
+    log(summary, "success");
+  };
+
+  // Subscribe to the shared collections listed in the user document
+  const subscribedCollectionsKey = (userDoc?.shared_collections || []).join('|');
+  useEffect(() => {
+    const ids = subscribedCollectionsKey ? subscribedCollectionsKey.split('|') : [];
+    setSharedCollections({});
+    const unsubscribes = ids.map(id => subscribeToPromptCollection(
+      id,
+      collection => setSharedCollections(prev => {
+        const next = { ...prev };
+        if (collection) next[id] = collection;
+        else delete next[id];
+        return next;
+      }),
+      () => log("Lost connection to a shared prompt collection.", "warning")
+    ));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [subscribedCollectionsKey]);
+
+  const handleSharedSubscriptionsChange = async (ids: string[]) => {
+    if (!user?.email) return;
+    // Prompts of collections no longer subscribed stop being enabled
+    const shared_enabled = pruneSharedEnabled(userDoc?.shared_enabled || [], ids, sharedCollections);
+    setUserDoc(prev => prev ? { ...prev, shared_collections: ids, shared_enabled } : null);
+    try {
+      await updateUserDocument(user.email, { shared_collections: ids, shared_enabled });
+    } catch (error) {
+      console.error("Error saving subscriptions", error);
+      log("Failed to save shared collection subscriptions.", "error");
+    }
+  };
+
+  const handleToggleSharedPrompt = async (key: string, enabled: boolean) => {
+    if (!user?.email || !userDoc) return;
+    // Drops keys of prompts renamed or removed from their collection on the way
+    const current = pruneSharedEnabled(userDoc.shared_enabled || [], userDoc.shared_collections || [], sharedCollections);
+    const shared_enabled = enabled ? [...current, key] : current.filter(k => k !== key);
+    setUserDoc(prev => prev ? { ...prev, shared_enabled } : null);
+    try {
+      await updateUserDocument(user.email, { shared_enabled });
+    } catch (error) {
+      console.error("Error saving shared prompt selection", error);
+      log("Failed to save shared prompt selection.", "error");
+    }
+  };
+
+  // Copy a shared prompt into the personal list, renamed when the name is taken
+  const handleForkPrompt = (prompt: PromptData) => {
+    if (!userDoc) return;
+    const current = userDoc.prompts || [];
+    let name = prompt.name;
+    for (let n = 2; current.some(p => p.name === name); n++) {
+      name = `${prompt.name} (${n})`;
+    }
+    replacePrompts([...current, { ...prompt, name, enabled: false }], userDoc.prompt_before ?? '', userDoc.prompt_after ?? '');
+    log(`Copied shared prompt "${prompt.name}" into your prompts${name !== prompt.name ? ` as "${name}"` : ''}.`, "success");
+  };
+
+  // Put one prompt back: replaces the prompt with the same name, or is appended when it was deleted
+  const handleRestorePrompt = (prompt: PromptData) => {
+    if (!userDoc) return;
+    const current = userDoc.prompts || [];
+    const exists = current.some(p => p.name === prompt.name);
+    const prompts = exists ? current.map(p => p.name === prompt.name ? prompt : p) : [...current, prompt];
+    replacePrompts(prompts, userDoc.prompt_before ?? '', userDoc.prompt_after ?? '');
+    log(`Restored prompt "${prompt.name}".`, "success");
+  };
+
+  // Save named prompt sets to Firestore
+  const handleSaveCombos = useCallback(async (combos: Combo[]) => {
+    if (!user?.email) return;
+
+    setUserDoc(prev => prev ? { ...prev, combos } : null);
+    try {
+      await updateUserDocument(user.email, { combos });
+      log("Prompt sets saved to cloud.", "success");
+    } catch (error) {
+      console.error("Error saving prompt sets", error);
+      log("Failed to save prompt sets.", "error");
+    }
+  }, [user?.email]);
+
   // Update local userDoc state immediately when prompts change (for RUN button to work)
-  const handlePromptsChange = useCallback((prompts: Array<{ name: string; prompt: string; enabled: boolean; skip_beforeafter_prompt: boolean }>, promptBefore: string, promptAfter: string) => {
+  const handlePromptsChange = useCallback((prompts: PromptData[], promptBefore: string, promptAfter: string) => {
     setUserDoc(prev => prev ? { ...prev, prompts, prompt_before: promptBefore, prompt_after: promptAfter } : null);
   }, []);
 
@@ -178,57 +494,122 @@ const App: React.FC = () => {
   }, [temperature]);
 
   useEffect(() => {
-    tokenUsage.saveToLocalStorage(STORAGE_KEY_TOKEN_USAGE);
-  }, [tokenUsage]);
+    localStorage.setItem(STORAGE_KEY_RUN_MODE, runMode);
+  }, [runMode]);
 
-  // Track previous historic values to detect changes
-  const prevHistoricCostRef = useRef<number>(tokenUsage.historic_cost);
-  const prevHistoricImagesRef = useRef<number>(tokenUsage.historic_images);
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_CONCURRENCY, concurrency.toString());
+  }, [concurrency]);
 
-  // Sync historic_cost and historic_images to cloud when they change
   useEffect(() => {
-    if (!user?.email) return;
+    localStorage.setItem(STORAGE_KEY_VARIATIONS, variations.toString());
+  }, [variations]);
 
-    const currentCost = tokenUsage.historic_cost;
-    const currentImages = tokenUsage.historic_images;
-    const costChanged = currentCost !== prevHistoricCostRef.current;
-    const imagesChanged = currentImages !== prevHistoricImagesRef.current;
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_PREPROCESS, JSON.stringify(preprocessOptions));
+    // Settings changed: prepare references again on next use
+    referenceCacheRef.current = null;
+  }, [preprocessOptions]);
 
-    if (costChanged || imagesChanged) {
-      prevHistoricCostRef.current = currentCost;
-      prevHistoricImagesRef.current = currentImages;
+  // Save variable settings to localStorage when changed
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_VARIABLES, JSON.stringify(variableSettings));
+  }, [variableSettings]);
 
-      // Save to cloud (fire and forget, don't block UI)
-      updateUserDocument(user.email, {
-        historic_cost: currentCost,
-        historic_images: currentImages
-      }).catch(err => console.error('Failed to sync historic data to cloud:', err));
-    }
-  }, [tokenUsage.historic_cost, tokenUsage.historic_images, user?.email]);
+  // Save file name template to localStorage when changed
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_FILENAME_TEMPLATE, fileNameTemplate);
+  }, [fileNameTemplate]);
 
-  // Load historic data from cloud on initial load
+  // Save metadata options to localStorage when changed
   useEffect(() => {
-    let needsUpdate = false;
-    const updates: Partial<{ historic_cost: number; historic_images: number }> = {};
+    localStorage.setItem(STORAGE_KEY_METADATA, JSON.stringify(metadataOptions));
+  }, [metadataOptions]);
 
-    if (userDoc?.historic_cost !== undefined && userDoc.historic_cost > tokenUsage.historic_cost) {
-      updates.historic_cost = userDoc.historic_cost;
-      needsUpdate = true;
-    }
-    if (userDoc?.historic_images !== undefined && userDoc.historic_images > tokenUsage.historic_images) {
-      updates.historic_images = userDoc.historic_images;
-      needsUpdate = true;
-    }
+  // Save budget and usage samples to localStorage when changed
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_BUDGET, JSON.stringify(budgetSettings));
+  }, [budgetSettings]);
 
-    if (needsUpdate) {
-      setTokenUsage(prev => {
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_USAGE_SAMPLES, JSON.stringify(usageSamples));
+  }, [usageSamples]);
+
+  // Follow the queue changes of other tabs
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY_PENDING_USAGE) setPendingUsage(loadPendingUsage());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // Retry the ledger writes that failed; each id is written at most once
+  useEffect(() => {
+    const email = user?.email;
+    const queued = pendingUsage.filter(p => p.email === email);
+    if (!email || queued.length === 0) return;
+    const timer = setTimeout(async () => {
+      const written = new Set<string>();
+      for (const pending of queued) {
+        try {
+          await recordUsage(email, pending.id, pending.entry);
+          written.add(pending.id);
+        } catch (error) {
+          console.error("Error recording queued usage", error);
+        }
+      }
+      // Always a new list, so the entries still failing are tried again after the delay
+      setPendingUsage(updatePendingUsage(queue => queue.filter(p => !written.has(p.id))));
+      if (written.size > 0) log(`Recorded ${written.size} queued generation(s) in the usage ledger${written.size < queued.length ? `, ${queued.length - written.size} still queued` : ''}.`, "info");
+    }, USAGE_RETRY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [user?.email, pendingUsage]);
+
+  // localStorage only caches the usage (shown until the cloud totals arrive)
+  useEffect(() => {
+    tokenUsage.saveToLocalStorage(STORAGE_KEY_TOKEN_USAGE);
+  }, [tokenUsage]);
+
+  // Historic totals follow the user document, which every tab and device increments atomically
+  useEffect(() => {
+    if (!user?.email) return;
+    const unsubscribe = subscribeToUsageTotals(
+      user.email,
+      totals => setTokenUsage(prev => {
+        if (prev.historic_cost === totals.historic_cost && prev.historic_images === totals.historic_images) return prev;
         const next = TokenUsage.fromJSON(prev.toJSON());
-        if (updates.historic_cost !== undefined) next.historic_cost = updates.historic_cost;
-        if (updates.historic_images !== undefined) next.historic_images = updates.historic_images;
+        next.historic_cost = totals.historic_cost;
+        next.historic_images = totals.historic_images;
         return next;
-      });
-    }
-  }, [userDoc?.historic_cost, userDoc?.historic_images]);
+      }),
+      () => log("Lost connection to usage totals, historic cost may be out of date.", "warning")
+    );
+    return () => unsubscribe();
+  }, [user?.email]);
+
+  // Today's spend follows the ledger, so the daily cap counts every tab and device.
+  // Entries of the next days keep arriving, spentToday only sums the current day.
+  useEffect(() => {
+    if (!user?.email) return;
+    const unsubscribe = subscribeToUsageLedger(
+      user.email,
+      startOfToday(),
+      entries => setTodayLedger(entries.filter(e => !e.adjustment)),
+      () => log("Lost connection to the usage ledger, today's spend may be out of date.", "warning")
+    );
+    return () => {
+      unsubscribe();
+      setTodayLedger([]);
+    };
+  }, [user?.email]);
+
+  // Recorded spend plus the writes still queued for a retry (skipping any that made it after all)
+  const spentTodayTotal = useMemo(() => {
+    const recorded = new Set(todayLedger.map(e => e.id));
+    const queued = pendingUsage.filter(p => p.email === user?.email && !recorded.has(p.id)).map(p => p.entry);
+    return spentToday([...todayLedger, ...queued]);
+  }, [todayLedger, pendingUsage, user?.email]);
 
   // Initialization
   useEffect(() => {
@@ -266,114 +647,299 @@ const App: React.FC = () => {
     }
   };
 
+  // Provider serving the selected model
+  const provider = getProviderForModel(selectedModel);
+  const capabilities = provider.capabilities(selectedModel);
+  // Bundled rates until the pricing document arrives
+  const pricingTable = pricingDoc ?? EMPTY_PRICING;
+  const pricing = useMemo(() => findRate(pricingTable, selectedModel, selectedImageSize), [pricingTable, selectedModel, selectedImageSize]);
+  const isProviderReady = hasKey || !capabilities.requiresApiKey;
+
+  // Prompts of subscribed collections, named "prompt (collection)" in runs and results
+  const sharedPrompts = useMemo(() => {
+    const enabledKeys = userDoc?.shared_enabled || [];
+    return (userDoc?.shared_collections || [])
+      .map(id => sharedCollections[id])
+      .filter((c): c is PromptCollection => !!c)
+      .flatMap(c => (c.prompts || []).map(p => ({
+        ...p,
+        name: `${p.name} (${c.name})`,
+        enabled: enabledKeys.includes(sharedPromptKey(c.id, p.name))
+      })));
+  }, [sharedCollections, userDoc?.shared_collections, userDoc?.shared_enabled]);
+
+  const enabledPrompts = useMemo(
+    () => [...(userDoc?.prompts || []), ...sharedPrompts].filter(p => p.enabled && p.name.trim()),
+    [userDoc?.prompts, sharedPrompts]
+  );
+
+  const variableSources = useMemo<VariableSources>(() => ({
+    runValues: parseRunValues(variableSettings.values),
+    filenamePattern: variableSettings.filenamePattern,
+    fileTable: variableTable?.rows ?? {}
+  }), [variableSettings, variableTable]);
+
+  // Placeholders used by the enabled prompts (or the manifest rows), including before/after text
+  const templateVariables = useMemo(() => {
+    // Same prompt text the tasks are built from, so before/after text counts only where it is used
+    const manifestPrompt = (row: Manifest['rows'][number]): PromptData | undefined => row.promptName
+      ? [...(userDoc?.prompts || []), ...sharedPrompts].find(p => p.name === row.promptName)
+      : { name: '', prompt: row.promptText ?? '', enabled: true, skip_beforeafter_prompt: false };
+    const prompts = manifest
+      ? manifest.rows.map(manifestPrompt).filter((p): p is PromptData => !!p)
+      : enabledPrompts;
+    const texts = prompts.map(p => buildPromptText(p, userDoc?.prompt_before, userDoc?.prompt_after));
+    return Array.from(new Set(texts.flatMap(extractVariables)));
+  }, [manifest, enabledPrompts, sharedPrompts, userDoc?.prompts, userDoc?.prompt_before, userDoc?.prompt_after]);
+
+  // Build Task List from the manifest, or from enabled prompts x files, with overrides and variables resolved
+  const buildRunTasks = (): { tasks: ProcessingResult[]; errors: string[] } => {
+    const settings = {
+      runMode,
+      variations,
+      model: selectedModel,
+      aspectRatio: selectedAspectRatio,
+      imageSize: selectedImageSize,
+      temperature
+    };
+    if (manifest) {
+      return buildManifestTasks(manifest, [...(userDoc?.prompts || []), ...sharedPrompts], selectedFiles, settings, userDoc?.prompt_before, userDoc?.prompt_after, variableSources);
+    }
+    const tasks = buildTasks(enabledPrompts, selectedFiles, settings, userDoc?.prompt_before, userDoc?.prompt_after, variableSources);
+    // Results remember the prompt set they were run with
+    const comboName = findActiveCombo(userDoc?.prompts || [], userDoc?.combos)?.name;
+    return { tasks: comboName ? tasks.map(t => ({ ...t, comboName })) : tasks, errors: [] };
+  };
+
+  // Placeholders left without a value, flagged before RUN
+  const unresolvedVariables = useMemo(
+    () => templateVariables.length > 0 ? findUnresolvedVariables(buildRunTasks().tasks) : [],
+    [templateVariables, manifest, enabledPrompts, userDoc?.prompts, sharedPrompts, selectedFiles, runMode, variableSources, userDoc?.prompt_before, userDoc?.prompt_after]
+  );
+
+  // Pre-run cost estimate of the tasks RUN would queue
+  const runEstimate = useMemo(() => {
+    if (manifest ? manifest.rows.length === 0 : enabledPrompts.length === 0 || (selectedFiles.length === 0 && runMode !== 'text_only')) {
+      return null;
+    }
+    return estimateRunCost(buildRunTasks().tasks, usageSamples, pricingTable);
+  }, [manifest, enabledPrompts, userDoc?.prompts, sharedPrompts, selectedFiles, runMode, variations, selectedModel, selectedImageSize, usageSamples, pricingTable]);
+
+  const canRun = !isProcessing && isProviderReady
+    && (manifest
+      ? manifest.rows.length > 0
+      : (selectedFiles.length > 0 || runMode === 'text_only') && enabledPrompts.length > 0);
+
   const log = (message: string, type: LogEntry['type'] = 'info') => {
     const timestamp = new Date().toLocaleTimeString('en-US', { hour12: false });
     setLogs(prev => [...prev, { timestamp, message, type }]);
   };
 
+  // Detail lines for a response without an image: finish reason, flagged safety categories, model text
+  const logDiagnostics = (diagnostics?: GenerationDiagnostics) => {
+    if (!diagnostics) return;
+    const details = [
+      diagnostics.finishReason && `finish reason ${diagnostics.finishReason}`,
+      diagnostics.blockReason && `block reason ${diagnostics.blockReason}`
+    ].filter(Boolean).join(', ');
+    if (details) log(`  ${details}`, "warning");
+
+    const flagged = (diagnostics.safetyRatings || []).filter(r => r.blocked || r.probability === 'HIGH' || r.probability === 'MEDIUM');
+    if (flagged.length > 0) {
+      log(`  Safety: ${flagged.map(r => `${r.category}=${r.probability ?? '?'}${r.blocked ? ' (blocked)' : ''}`).join(', ')}`, "warning");
+    }
+    if (diagnostics.text) {
+      log(`  Model text: ${diagnostics.text}`, "warning");
+    }
+  };
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const files = Array.from(e.target.files) as File[];
+      const selected = Array.from(e.target.files) as File[];
+      // A CSV picked along with the pictures is taken as the per-file variables table
+      const sidecar = selected.find(file => /\.(csv|tsv)$/i.test(file.name));
+      const files = selected.filter(file => file !== sidecar);
       setSelectedFiles(files);
       log(`Selected ${files.length} file(s) from path.`, 'info');
+      if (sidecar) loadVariableTable(sidecar);
     }
   };
 
-  const handleProcess = async () => {
-    if (!userDoc || !userDoc.prompts || userDoc.prompts.length === 0) {
-      log("Error: No prompts configured.", "error");
-      return;
+  const loadVariableTable = async (file: File) => {
+    try {
+      const rows = parseFileTable(await file.text());
+      const count = Object.keys(rows).length;
+      if (count === 0) {
+        log(`${file.name}: no rows found. The table needs a "file" column naming each reference picture.`, 'error');
+        return;
+      }
+      setVariableTable({ name: file.name, rows });
+      log(`Loaded variables for ${count} file(s) from ${file.name}.`, 'info');
+    } catch (error: any) {
+      log(`Could not read ${file.name}: ${error.message}`, 'error');
     }
+  };
 
-    // Get enabled prompts
-    const enabledPrompts = userDoc.prompts.filter(p => p.enabled && p.name.trim());
-    if (enabledPrompts.length === 0) {
-      log("Error: No prompts selected.", "error");
-      return;
+  const loadManifest = async (file: File) => {
+    try {
+      const { manifest: loaded, errors } = parseManifest(file.name, await file.text());
+      errors.forEach(error => log(`Manifest ${error}`, "error"));
+      if (loaded.rows.length === 0) {
+        log(`${file.name}: no valid rows, manifest not loaded.`, "error");
+        return;
+      }
+      setManifest(loaded);
+      log(`Loaded manifest ${file.name}: ${loaded.rows.length} row(s)${errors.length ? `, ${errors.length} invalid row(s) skipped` : ''}. RUN now follows the manifest.`, errors.length ? "warning" : "success");
+    } catch (error: any) {
+      log(`Could not read ${file.name}: ${error.message}`, "error");
     }
+  };
 
-    if (selectedFiles.length === 0) {
-      log("Error: No files selected.", "error");
+  const handleProcess = async () => {
+    if (manifest) {
+      if (manifest.rows.length === 0) {
+        log("Error: Manifest has no rows.", "error");
+        return;
+      }
+    } else {
+      if (!userDoc || !userDoc.prompts || userDoc.prompts.length === 0) {
+        log("Error: No prompts configured.", "error");
+        return;
+      }
+
+      if (enabledPrompts.length === 0) {
+        log("Error: No prompts selected.", "error");
+        return;
+      }
+
+      if (selectedFiles.length === 0 && runMode !== 'text_only') {
+        log("Error: No files selected.", "error");
+        return;
+      }
+    }
+
+    // 1. Build Task List, manifest rows that cannot run are skipped and every {{variable}} must have a value
+    const { tasks, errors } = buildRunTasks();
+    if (errors.length > 0) {
+      log(`Skipping ${errors.length} manifest row(s) that cannot run:`, "warning");
+      errors.forEach(error => log(`  ${error}`, "warning"));
+    }
+    if (tasks.length === 0) {
+      log("Error: No task can run.", "error");
       return;
     }
-    if (!hasKey) {
-      log("Error: API Key not configured.", "error");
+    const unresolved = findUnresolvedVariables(tasks);
+    if (unresolved.length > 0) {
+      log(`Error: ${unresolved.length} prompt(s) have variables without a value:`, "error");
+      unresolved.forEach(u => log(`  ${u.promptName}${u.fileName ? ` / ${u.fileName}` : ''}: ${u.missing.join(', ')}`, "error"));
       return;
     }
 
-    setIsProcessing(true);
-    setResults([]); // Clear previous results
-
-    // 1. Use all selected files
-    const filesToProcess = selectedFiles;
-
-    if (filesToProcess.length === 0) {
-      log("No files selected.", "warning");
-      setIsProcessing(false);
+    // 2. Every model used by the batch must be usable
+    const needsKey = tasks.some(t => getProviderForModel(t.model).capabilities(t.model).requiresApiKey);
+    if (needsKey && !hasKey) {
+      log("Error: API Key not configured.", "error");
       return;
     }
 
-    log(`Starting batch for ${filesToProcess.length} files...`, "info");
-
-    const tasks: ProcessingResult[] = [];
-
-    // 2. Build Task List from enabled prompts
-    enabledPrompts.forEach(prompt => {
-      // Combine before + prompt + after (unless skip_beforeafter_prompt is true)
-      const basePrompt = prompt.prompt;
-      let fullPrompt: string;
-
-      if (prompt.skip_beforeafter_prompt) {
-        // Skip before/after text for this prompt
-        fullPrompt = basePrompt.trim();
-      } else {
-        // Include before/after text
-        const beforeText = userDoc.prompt_before || '';
-        const afterText = userDoc.prompt_after || '';
-        fullPrompt = `${beforeText}${beforeText ? '\n' : ''}${basePrompt}${afterText ? '\n' : ''}${afterText}`.trim();
-      }
+    // 3. Estimate, and guard the budget caps while queueing
+    const estimate = estimateRunCost(tasks, usageSamples, pricingTable);
+    const budget = new BudgetGuard(budgetSettings, spentTodayTotal);
+    log(`Estimated cost: ~$${estimate.total.toFixed(2)} for ${estimate.taskCount} task(s)${estimate.sampleCount > 0 ? ` (from ${estimate.sampleCount} recent generation(s))` : ' (typical token counts)'}.`, "info");
+    if (pricingDoc === null) {
+      log("Pricing: the pricing document has not loaded yet, costs use the bundled rates.", "warning");
+    } else {
+      log(`Pricing: ${pricingDoc.entries.length > 0 ? `table v${pricingDoc.version}, bundled rates where it has no entry` : 'bundled rates'}.`, "info");
+    }
 
-      tasks.push({
-        id: `${prompt.name}-${Date.now()}`,
-        files: filesToProcess,
-        promptName: prompt.name,
-        promptText: fullPrompt,
-        status: 'pending'
-      });
-    });
+    const controller = new BatchController();
+    batchControllerRef.current = controller;
+    setIsProcessing(true);
+    setIsPaused(false);
 
+    if (manifest) {
+      log(`Starting manifest batch ${manifest.name} (${manifest.rows.length} rows)...`, "info");
+    } else if (runMode === 'text_only') {
+      log(`Starting text-only batch (no reference files)...`, "info");
+    } else {
+      log(`Starting batch for ${selectedFiles.length} files (${runMode === 'per_file' ? 'per file' : 'combined'})...`, "info");
+    }
 
-    setResults(tasks);
+    setResults(tasks); // Replaces previous results
     log(`Queued ${tasks.length} generation tasks.`, "info");
 
-    // 4. Process Loop (Sequential to be safe with rate limits/complexity)
-    for (let i = 0; i < tasks.length; i++) {
-      const task = tasks[i];
+    // 4. Each reference file is read and preprocessed once for the whole batch
+    const referenceCache = new ReferenceCache(preprocessOptions, log);
+    referenceCacheRef.current = referenceCache;
+
+    // 5. Process Loop (worker pool, transient quota errors are retried with backoff)
+    await runWithConcurrency(tasks, concurrency, async (task, i) => {
+      // Stop queueing once this task could push the projected spend over a cap
+      const blocked = budget.reserve(estimate.perTask[i]);
+      if (blocked) {
+        if (!controller.isQueueingStopped) {
+          controller.stopQueueing();
+          log(`Budget: ${blocked} No new tasks will be queued.`, "warning");
+        }
+        updateResultStatus(i, 'cancelled');
+        return;
+      }
 
       // Update status to processing
       updateResultStatus(i, 'processing');
-      log(`Processing [${i + 1}/${tasks.length}]:  ${task.promptName}`, "info");
+      log(`Processing [${i + 1}/${tasks.length}]:  ${task.promptName} (${describeSources(task)})${task.variationCount > 1 ? ` variation ${task.variationIndex}/${task.variationCount}` : ''}`, "info");
+      // Tokens of attempts that returned no image and were retried, billed as they happen
+      let retriedCost = 0;
       try {
-
-        const { imageUrl, usage } = await generateImageFromReference(
-          task.files,
-          task.promptText,
-          selectedAspectRatio,
-          selectedImageSize,
-          selectedModel,
-          temperature
+        const references = await referenceCache.getAll(task.files);
+
+        const { imageUrl, usage, thoughtSignature, diagnostics } = await withRetry(
+          () => getProviderForModel(task.model).generate({
+            references,
+            prompt: task.promptText,
+            model: task.model,
+            aspectRatio: task.aspectRatio,
+            imageSize: task.imageSize,
+            temperature: task.temperature,
+            signal: controller.signal
+          }),
+          {
+            ...DEFAULT_RETRY_OPTIONS,
+            signal: controller.signal,
+            onRetry: (attempt, delayMs, error) => {
+              log(`Retry [${i + 1}/${tasks.length}]: (${task.promptName}) attempt ${attempt}/${DEFAULT_RETRY_OPTIONS.maxRetries + 1} failed - ${error.message}. Retrying in ${(delayMs / 1000).toFixed(1)}s...`, "warning");
+              retriedCost += billNoImageResponse(task, error);
+            }
+          }
         );
 
+        // Priced with the rate in effect when the call returned
+        const completedAt = Date.now();
+        const cost = TokenUsage.getItemCost(pricingTable, usage.input, usage.output_text, usage.output_image, task.model as ModelType, task.imageSize, completedAt);
         setTokenUsage(prev => {
           const next = TokenUsage.fromJSON(prev.toJSON());
-          next.addItem(usage.input, usage.output_text, usage.output_image, selectedModel as ModelType);
+          next.addItem(pricingTable, usage.input, usage.output_text, usage.output_image, task.model as ModelType, task.imageSize, completedAt);
           return next;
         });
-        updateResultStatus(i, 'completed', imageUrl);
+        budget.settle(estimate.perTask[i], retriedCost + cost);
+        trackSpend(task, usage, cost, completedAt);
+        updateResult(i, { status: 'completed', imageUrl, thoughtSignature, usage, cost, completedAt, error: undefined, diagnostics });
+        saveToGallery(task.id, task, imageUrl, usage, cost, completedAt);
         log(`Success: (${task.promptName}) generated. Tokens: ${usage.total} (In: ${usage.input}, Out: ${usage.output_image + usage.output_text})`, "success");
+        if (diagnostics?.text) {
+          log(`  Model text: ${diagnostics.text}`, "info");
+        }
       } catch (err: any) {
-        updateResultStatus(i, 'failed', undefined, err.message);
+        if (controller.isStopped) {
+          budget.settle(estimate.perTask[i], retriedCost + billNoImageResponse(task, err));
+          updateResultStatus(i, 'cancelled');
+          log(`Cancelled: (${task.promptName})`, "warning");
+          return;
+        }
+        updateResult(i, { status: 'failed', imageUrl: undefined, error: err.message, diagnostics: err.diagnostics });
         log(`Failed: (${task.promptName}) - ${err.message}`, "error");
+        logDiagnostics(err.diagnostics);
+        budget.settle(estimate.perTask[i], retriedCost + billNoImageResponse(task, err));
 
         // Re-check auth on specific errors if needed
         if (err.message && err.message.includes("Requested entity was not found")) {
@@ -383,23 +949,242 @@ const App: React.FC = () => {
           if (window.aistudio) {
             setHasKey(false);
           }
-          break; // Stop batch
+          controller.stop(); // Stop batch
         }
       }
-    }
+    }, controller);
 
+    // Tasks never picked up because the batch was stopped
+    setResults(prev => prev.map(r => r.status === 'pending' ? { ...r, status: 'cancelled' } : r));
+
+    batchControllerRef.current = null;
     setIsProcessing(false);
-    log("Batch processing finished.", "success");
+    setIsPaused(false);
+    if (controller.isStopped) {
+      log("Batch stopped.", "warning");
+    } else if (controller.isQueueingStopped) {
+      log("Batch ended at the budget cap, remaining tasks were cancelled.", "warning");
+    } else {
+      log("Batch processing finished.", "success");
+    }
+  };
+
+  const handlePauseResume = () => {
+    const controller = batchControllerRef.current;
+    if (!controller) return;
+    if (controller.isPaused) {
+      controller.resume();
+      setIsPaused(false);
+      log("Batch resumed.", "info");
+    } else {
+      controller.pause();
+      setIsPaused(true);
+      log("Batch paused. In-flight tasks will finish, no new tasks will start.", "warning");
+    }
+  };
+
+  const handleStop = () => {
+    const controller = batchControllerRef.current;
+    if (!controller || controller.isStopped) return;
+    controller.stop();
+    setIsPaused(false);
+    log("Stopping batch...", "warning");
   };
 
   const updateResultStatus = (index: number, status: ProcessingResult['status'], imageUrl?: string, error?: string) => {
+    updateResult(index, { status, imageUrl, error });
+  };
+
+  const updateResult = (index: number, patch: Partial<ProcessingResult>) => {
     setResults(prev => {
       const next = [...prev];
-      next[index] = { ...next[index], status, imageUrl, error };
+      next[index] = { ...next[index], ...patch };
       return next;
     });
   };
 
+  const updateVersion = (resultId: string, versionId: string, patch: Partial<RefinementVersion>) => {
+    setResults(prev => prev.map(r => r.id !== resultId ? r : {
+      ...r,
+      versions: (r.versions || []).map(v => v.id === versionId ? { ...v, ...patch } : v)
+    }));
+  };
+
+  // Refine a completed result with a follow-up instruction, continuing from its latest version
+  const handleRefine = async (result: ProcessingResult, instruction: string) => {
+    if (!result.imageUrl) return;
+    const refineProvider = getProviderForModel(result.model);
+    if (refineProvider.capabilities(result.model).requiresApiKey && !hasKey) {
+      log("Error: API Key not configured.", "error");
+      return;
+    }
+
+    // Refinements count towards the daily cap (the run cap only applies to batches)
+    const estimate = estimateTaskCost(result.model, result.imageSize, usageSamples, pricingTable).cost;
+    const blocked = new BudgetGuard({ perRun: 0, perDay: budgetSettings.perDay }, spentTodayTotal).reserve(estimate);
+    if (blocked) {
+      log(`Budget: ${blocked} Refinement not started.`, "warning");
+      return;
+    }
+
+    const version: RefinementVersion = {
+      id: `${result.id}-r${Date.now()}`,
+      instruction,
+      status: 'processing'
+    };
+    setResults(prev => prev.map(r => r.id === result.id ? { ...r, versions: [...(r.versions || []), version] } : r));
+    log(`Refining: (${result.promptName}) - ${instruction}`, "info");
+
+    if (!referenceCacheRef.current) {
+      referenceCacheRef.current = new ReferenceCache(preprocessOptions, log);
+    }
+    const referenceCache = referenceCacheRef.current;
+
+    try {
+      // Thread: original prompt + references, original output, then every completed refinement
+      const history: ConversationTurn[] = [
+        { role: 'user', text: result.promptText, references: await referenceCache.getAll(result.files) },
+        { role: 'model', imageUrls: [result.imageUrl], thoughtSignature: result.thoughtSignature }
+      ];
+      (result.versions || []).filter(v => v.status === 'completed' && v.imageUrl).forEach(v => {
+        history.push({ role: 'user', text: v.instruction });
+        history.push({ role: 'model', imageUrls: [v.imageUrl!], thoughtSignature: v.thoughtSignature });
+      });
+
+      const { imageUrl, usage, thoughtSignature } = await withRetry(
+        () => refineProvider.generate({
+          references: [],
+          prompt: instruction,
+          history,
+          model: result.model,
+          aspectRatio: result.aspectRatio,
+          imageSize: result.imageSize,
+          temperature: result.temperature
+        }),
+        {
+          ...DEFAULT_RETRY_OPTIONS,
+          onRetry: (attempt, delayMs, error) => {
+            log(`Retry refine: (${result.promptName}) attempt ${attempt}/${DEFAULT_RETRY_OPTIONS.maxRetries + 1} failed - ${error.message}. Retrying in ${(delayMs / 1000).toFixed(1)}s...`, "warning");
+            billNoImageResponse(result, error, true);
+          }
+        }
+      );
+
+      const completedAt = Date.now();
+      const cost = TokenUsage.getItemCost(pricingTable, usage.input, usage.output_text, usage.output_image, result.model as ModelType, result.imageSize, completedAt);
+      setTokenUsage(prev => {
+        const next = TokenUsage.fromJSON(prev.toJSON());
+        next.addItem(pricingTable, usage.input, usage.output_text, usage.output_image, result.model as ModelType, result.imageSize, completedAt);
+        return next;
+      });
+      trackSpend(result, usage, cost, completedAt, true);
+      updateVersion(result.id, version.id, { status: 'completed', imageUrl, thoughtSignature, usage, cost, completedAt });
+      saveToGallery(version.id, result, imageUrl, usage, cost, completedAt, { instruction, index: (result.versions || []).length + 1 });
+      log(`Success: (${result.promptName}) refined. Tokens: ${usage.total} (In: ${usage.input}, Out: ${usage.output_image + usage.output_text}), $${cost.toFixed(4)}`, "success");
+    } catch (err: any) {
+      updateVersion(result.id, version.id, { status: 'failed', error: err.message, diagnostics: err.diagnostics });
+      log(`Refine failed: (${result.promptName}) - ${err.message}`, "error");
+      logDiagnostics(err.diagnostics);
+      billNoImageResponse(result, err, true);
+    }
+  };
+
+  // A response without an image still bills its tokens: count them like a generation without the image.
+  // Returns the cost, 0 for errors that were not billed.
+  const billNoImageResponse = (res: ProcessingResult, err: unknown, refinement: boolean = false): number => {
+    if (!(err instanceof GenerationError) || !err.usage || err.usage.total === 0) return 0;
+    const usage = err.usage;
+    const completedAt = Date.now();
+    const cost = TokenUsage.getItemCost(pricingTable, usage.input, usage.output_text, usage.output_image, res.model as ModelType, res.imageSize, completedAt, 0);
+    setTokenUsage(prev => {
+      const next = TokenUsage.fromJSON(prev.toJSON());
+      next.addItem(pricingTable, usage.input, usage.output_text, usage.output_image, res.model as ModelType, res.imageSize, completedAt, 0);
+      return next;
+    });
+    trackSpend(res, usage, cost, completedAt, refinement, true);
+    log(`  Billed without image: ${usage.total} tokens, $${cost.toFixed(4)}`, "warning");
+    return cost;
+  };
+
+  // Count a finished call towards the usage history behind estimates and the cloud ledger (today's spend follows it)
+  const trackSpend = async (res: ProcessingResult, usage: GenerationUsage, cost: number, timestamp: number, refinement: boolean = false, noImage: boolean = false) => {
+    // Estimates are per image, so responses without one stay out of the samples
+    if (!noImage) {
+      setUsageSamples(prev => addUsageSample(prev, res.model, res.imageSize, usage));
+    }
+    if (!user?.email) return;
+    const email = user.email;
+    const id = crypto.randomUUID();
+    const entry: Omit<UsageLedgerEntry, 'id'> = {
+      timestamp,
+      model: res.model,
+      imageSize: res.imageSize,
+      input: usage.input,
+      output_text: usage.output_text,
+      output_image: usage.output_image,
+      total: usage.total,
+      cost,
+      promptName: res.promptName,
+      comboName: res.comboName,
+      refinement: refinement || undefined,
+      noImage: noImage || undefined
+    };
+    try {
+      await recordUsage(email, id, entry);
+    } catch (error) {
+      // Keep it for a retry, the totals catch up once the entry is written
+      console.error("Error recording usage", error);
+      setPendingUsage(updatePendingUsage(queue => [...queue, { id, email, entry }]));
+      log(`Could not record (${res.promptName}) in the usage ledger, queued for a retry.`, "warning");
+    }
+  };
+
+  // Keep a completed image in the local gallery, so it survives reloads and Clear
+  const saveToGallery = async (id: string, res: ProcessingResult, imageUrl: string, usage: GenerationUsage, cost: number, completedAt: number, refinement?: { instruction: string; index: number }) => {
+    try {
+      const blob = await dataUrlToBlob(imageUrl);
+      await saveGalleryEntry({
+        id,
+        createdAt: completedAt,
+        blob,
+        mimeType: blob.type,
+        promptName: res.promptName,
+        promptText: res.promptText,
+        comboName: res.comboName,
+        model: res.model,
+        aspectRatio: res.aspectRatio,
+        imageSize: res.imageSize,
+        temperature: res.temperature,
+        usage,
+        cost,
+        sourceNames: res.files.map(f => f.name),
+        variationIndex: res.variationIndex,
+        variationCount: res.variationCount,
+        refinement: refinement?.instruction,
+        refinementIndex: refinement?.index
+      });
+    } catch (error) {
+      console.error("Error saving to gallery", error);
+      log(`Could not keep (${res.promptName}) in the gallery.`, "warning");
+    }
+  };
+
+  // All completed images of the current run (with refinements) as one ZIP with a manifest.json
+  const handleDownloadAll = async () => {
+    setIsZipping(true);
+    try {
+      const items = await collectResultItems(results);
+      if (items.length === 0) return;
+      downloadBlob(await buildResultsZip(items, fileNameTemplate, metadataOptions), `banana_run_${new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-')}.zip`);
+      log(`Packaged ${items.length} image(s) into a ZIP.`, "success");
+    } catch (error: any) {
+      console.error("Error building ZIP", error);
+      log(`Failed to build ZIP: ${error.message}`, "error");
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
   const handleClear = () => {
     setResults([]);
     setTokenUsage(prev => {
@@ -411,22 +1196,26 @@ const App: React.FC = () => {
     setLogs([{ timestamp, message: "Workspace and Console cleared.", type: 'info' }]);
   };
 
-  // Helper to handle download
-  const handleDownload = (res: ProcessingResult) => {
-    if (!res.imageUrl) return;
-    const link = document.createElement('a');
-    link.href = res.imageUrl;
-    // Format: 3_beach standing_.jpg (Simulating the request requirement: {original}_{prompt}.jpg)
-    // Removing extension from original for cleaner name if needed, but request said "origin file name"
-    const namePart = res.files[0].name.replace(/\.[^/.]+$/, "");
-    link.download = `${namePart}_${res.promptName}.jpg`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Helper to handle download, named from the file name template
+  const handleDownload = async (res: ProcessingResult, versionIndex?: number) => {
+    const item = await resultToExportItem(res, versionIndex);
+    if (!item) return;
+    const name = uniqueFileName(await formatFileName(fileNameTemplate, item), downloadedNamesRef.current);
+    (await exportFiles(item, name, metadataOptions)).forEach(file => downloadBlob(file.blob, file.name));
   };
 
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100 flex flex-col md:flex-row">
+      {/* Refinement Thread */}
+      {refineResult && (
+        <RefinePanel
+          result={refineResult}
+          onRefine={handleRefine}
+          onDownload={handleDownload}
+          onClose={() => setRefineResultId(null)}
+        />
+      )}
+
       {/* Lightbox Modal */}
       {lightboxImage && lightboxImage.imageUrl && (
         <div
@@ -453,8 +1242,14 @@ const App: React.FC = () => {
           {/* Info & Download */}
           <div className="w-full max-w-md mt-4 space-y-3" onClick={(e) => e.stopPropagation()}>
             <div className="text-center">
-              <div className="text-slate-400 text-sm">{lightboxImage.originalFileName}</div>
-              <div className="text-white font-bold">{lightboxImage.promptName}</div>
+              <div className="text-slate-400 text-sm">{describeSources(lightboxImage)}</div>
+              <div className="text-white font-bold">
+                {lightboxImage.promptName}
+                {lightboxImage.comboName && <span className="ml-2 text-xs font-normal text-amber-400">{lightboxImage.comboName}</span>}
+              </div>
+              <div className="text-slate-500 text-xs font-mono mt-1">
+                {MODEL_OPTIONS.find(m => m.value === lightboxImage.model)?.label || lightboxImage.model} · {lightboxImage.aspectRatio} · {lightboxImage.imageSize} · t{lightboxImage.temperature.toFixed(1)}
+              </div>
             </div>
             <button
               onClick={() => handleDownload(lightboxImage)}
@@ -463,9 +1258,55 @@ const App: React.FC = () => {
               <Download size={24} />
               Download Image
             </button>
+            <button
+              onClick={() => {
+                setRefineResultId(lightboxImage.id);
+                setLightboxImage(null);
+              }}
+              className="w-full bg-slate-700 hover:bg-slate-600 text-white py-3 px-6 rounded-xl font-bold flex items-center justify-center gap-3 active:scale-95 transition-transform"
+            >
+              <WandSparkles size={20} />
+              Refine{lightboxImage.versions?.length ? ` (${lightboxImage.versions.length} versions)` : ''}
+            </button>
           </div>
         </div>
       )}
+      {/* Local Gallery */}
+      {showGallery && <GalleryView onClose={() => setShowGallery(false)} onLog={log} fileNameTemplate={fileNameTemplate} metadataOptions={metadataOptions} />}
+
+      {/* Usage Reports */}
+      {showReports && user?.email && <UsageReports email={user.email} onClose={() => setShowReports(false)} onLog={log} />}
+
+      {/* Metadata Inspector */}
+      {showInspector && <MetadataInspector onClose={() => setShowInspector(false)} />}
+
+      {/* Prompt History */}
+      {showPromptHistory && user?.email && userDoc && (
+        <PromptHistoryPanel
+          email={user.email}
+          prompts={userDoc.prompts || []}
+          promptBefore={userDoc.prompt_before ?? ''}
+          promptAfter={userDoc.prompt_after ?? ''}
+          onRestoreVersion={handleRestoreVersion}
+          onRestorePrompt={handleRestorePrompt}
+          onClose={() => setShowPromptHistory(false)}
+        />
+      )}
+
+      {/* Prompt Import / Export */}
+      {showPromptLibrary && userDoc && (
+        <PromptLibraryDialog
+          current={{
+            prompts: userDoc.prompts || [],
+            prompt_before: userDoc.prompt_before ?? '',
+            prompt_after: userDoc.prompt_after ?? '',
+            combos: userDoc.combos || []
+          }}
+          onApply={handleImportLibrary}
+          onClose={() => setShowPromptLibrary(false)}
+        />
+      )}
+
       {/* Sidebar / Config Panel */}
       <div className={`fixed inset-y-0 left-0 z-50 w-full md:w-96 bg-slate-950 border-r border-slate-800 transform transition-transform duration-300 ${showConfig ? 'translate-x-0' : '-translate-x-full'} md:translate-x-0 md:static flex flex-col`}>
         <div className="p-4 border-b border-slate-800 flex justify-between items-center">
@@ -499,11 +1340,29 @@ const App: React.FC = () => {
             </div>
           ) : userDoc ? (
             <PromptEditor
+              key={promptEditorKey}
               prompts={userDoc.prompts}
               promptBefore={userDoc.prompt_before}
               promptAfter={userDoc.prompt_after}
               onSave={handleSavePrompts}
               onChange={handlePromptsChange}
+              combos={userDoc.combos}
+              onSaveCombos={handleSaveCombos}
+              onShowHistory={() => setShowPromptHistory(true)}
+              onShowLibrary={() => setShowPromptLibrary(true)}
+              shared={user?.email && (
+                <SharedCollections
+                  email={user.email}
+                  collections={(userDoc.shared_collections || []).map(id => sharedCollections[id]).filter((c): c is PromptCollection => !!c)}
+                  subscribedIds={userDoc.shared_collections || []}
+                  onSubscriptionsChange={handleSharedSubscriptionsChange}
+                  enabledKeys={userDoc.shared_enabled || []}
+                  onToggleEnabled={handleToggleSharedPrompt}
+                  onFork={handleForkPrompt}
+                  personalPrompts={userDoc.prompts || []}
+                  onLog={log}
+                />
+              )}
               isSaving={isSavingUserDoc}
             />
           ) : (
@@ -541,9 +1400,16 @@ const App: React.FC = () => {
                 <span className="text-xs font-medium text-slate-300 truncate max-w-[100px]">{user?.displayName || 'User'}</span>
               </div>
             </div>
-            <button onClick={logout} className="text-xs bg-slate-700 hover:bg-red-600 text-white px-2 py-1 rounded">
-              Logout
-            </button>
+            <div className="flex items-center gap-1">
+              {isAdmin && (
+                <Link to="/admin" className="text-xs bg-slate-700 hover:bg-amber-600 text-white px-2 py-1 rounded flex items-center gap-1" title="Access list and user usage">
+                  <Shield size={12} /> Admin
+                </Link>
+              )}
+              <button onClick={logout} className="text-xs bg-slate-700 hover:bg-red-600 text-white px-2 py-1 rounded">
+                Logout
+              </button>
+            </div>
           </div>
 
           <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noreferrer" className="block text-xs text-slate-500 text-center hover:text-slate-400">
@@ -562,7 +1428,7 @@ const App: React.FC = () => {
             </button>
             <div className="flex gap-4">
               {(() => {
-                const costBreakdown = tokenUsage.getCostBreakdown(selectedModel as ModelType);
+                const costBreakdown = tokenUsage.getCostBreakdown();
                 return (
                   <>
                     <div className="flex flex-col group relative">
@@ -572,7 +1438,7 @@ const App: React.FC = () => {
                       {/* Tooltip */}
                       <div className="absolute top-full left-0 mt-2 w-48 bg-slate-800 border border-slate-700 rounded p-2 shadow-xl opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-50">
                         <div className="text-xs text-slate-400 mb-1">
-                          {selectedModel === 'gemini-2.5-flash-image' ? '$0.30 / 1M tokens' : '$2.00 / 1M tokens'}
+                          ${(pricing.input * 1_000_000).toFixed(2)} / 1M tokens
                         </div>
                         <div className="text-xs font-mono text-blue-400 font-bold">
                           {tokenUsage.input.toLocaleString()} tokens
@@ -585,12 +1451,12 @@ const App: React.FC = () => {
 
                       {/* Tooltip */}
                       <div className="absolute top-full left-0 mt-2 w-48 bg-slate-800 border border-slate-700 rounded p-2 shadow-xl opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-50">
-                        {selectedModel === 'gemini-2.5-flash-image' ? (
-                          <div className="text-xs text-slate-400 mb-1">$0.039 / image</div>
+                        {pricing.output_imageflat > 0 ? (
+                          <div className="text-xs text-slate-400 mb-1">${pricing.output_imageflat} / image</div>
                         ) : (
                           <>
-                            <div className="text-xs text-slate-400 mb-1">$120.00 / 1M tokens (image)</div>
-                            <div className="text-xs text-slate-400 mb-1">$12.00 / 1M tokens (text)</div>
+                            <div className="text-xs text-slate-400 mb-1">${(pricing.output_image * 1_000_000).toFixed(2)} / 1M tokens (image)</div>
+                            <div className="text-xs text-slate-400 mb-1">${(pricing.output_text * 1_000_000).toFixed(2)} / 1M tokens (text)</div>
                           </>
                         )}
                         <div className="text-xs font-mono text-green-400 font-bold">
@@ -628,6 +1494,36 @@ const App: React.FC = () => {
                 <span>Install App</span>
               </button>
             )}
+            <button
+              onClick={() => setShowGallery(true)}
+              className="flex items-center gap-2 bg-slate-800 hover:bg-slate-700 text-slate-200 px-4 py-2 rounded-md transition border border-slate-700"
+              title="Past results kept in this browser"
+            >
+              <Images size={18} />
+              <span className="hidden md:inline">Gallery</span>
+            </button>
+            <button
+              onClick={() => setShowInspector(true)}
+              className="flex items-center gap-2 bg-slate-800 hover:bg-slate-700 text-slate-200 px-4 py-2 rounded-md transition border border-slate-700"
+              title="Read the prompt and settings back from a downloaded image"
+            >
+              <FileSearch size={18} />
+              <span className="hidden md:inline">Inspect</span>
+            </button>
+            <button
+              onClick={() => setShowReports(true)}
+              className="flex items-center gap-2 bg-slate-800 hover:bg-slate-700 text-slate-200 px-4 py-2 rounded-md transition border border-slate-700"
+              title="Spend by day, week, month, model and prompt"
+            >
+              <ChartColumn size={18} />
+              <span className="hidden md:inline">Reports</span>
+            </button>
+            <ManifestImport
+              manifest={manifest}
+              onLoad={loadManifest}
+              onClear={() => setManifest(null)}
+              disabled={isProcessing}
+            />
             <div className="relative">
               <input
                 type="file"
@@ -654,7 +1550,7 @@ const App: React.FC = () => {
               onChange={(e) => setSelectedAspectRatio(e.target.value)}
               disabled={isProcessing}
             >
-              {['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'].map(ratio => (
+              {(capabilities.aspectRatios.length ? capabilities.aspectRatios : ASPECT_RATIOS).map(ratio => (
                 <option key={ratio} value={ratio}>{ratio}</option>
               ))}
             </select>
@@ -667,9 +1563,9 @@ const App: React.FC = () => {
               className="w-full bg-slate-950 text-slate-200 border border-slate-700 rounded p-2.5 focus:border-amber-500 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
               value={selectedImageSize}
               onChange={(e) => setSelectedImageSize(e.target.value)}
-              disabled={isProcessing || selectedModel === 'gemini-2.5-flash-image'}
+              disabled={isProcessing || capabilities.imageSizes.length === 0}
             >
-              {['1K', '2K', '4K'].map(size => (
+              {IMAGE_SIZES.map(size => (
                 <option key={size} value={size}>{size}</option>
               ))}
             </select>
@@ -685,7 +1581,7 @@ const App: React.FC = () => {
               step="0.1"
               value={temperature}
               onChange={(e) => setTemperature(parseFloat(e.target.value))}
-              disabled={isProcessing}
+              disabled={isProcessing || !capabilities.supportsTemperature}
               className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-amber-500 disabled:opacity-50 disabled:cursor-not-allowed"
             />
             <div className="flex justify-between text-[10px] text-slate-600 mt-1">
@@ -694,11 +1590,95 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          {/* Reference Preprocessing */}
+          <PreprocessSettings
+            options={preprocessOptions}
+            onChange={setPreprocessOptions}
+            disabled={isProcessing}
+          />
+
+          {/* Download Names and Metadata */}
+          <DownloadSettings
+            template={fileNameTemplate}
+            onChange={setFileNameTemplate}
+            metadata={metadataOptions}
+            onMetadataChange={setMetadataOptions}
+          />
+
+          {/* Prompt Variables */}
+          <VariablesPanel
+            variables={templateVariables}
+            settings={variableSettings}
+            onChange={setVariableSettings}
+            table={variableTable}
+            onLoadTable={loadVariableTable}
+            onClearTable={() => setVariableTable(null)}
+            unresolved={unresolvedVariables}
+            disabled={isProcessing}
+          />
+
+          {/* Run Mode Selector */}
+          <div className="w-32">
+            <label className="block text-xs font-mono text-slate-500 mb-2 uppercase">Run Mode</label>
+            <select
+              className="w-full bg-slate-950 text-slate-200 border border-slate-700 rounded p-2.5 focus:border-amber-500 focus:outline-none"
+              value={runMode}
+              onChange={(e) => setRunMode(e.target.value as RunMode)}
+              disabled={isProcessing || !!manifest}
+              title="Combined: all files sent with each prompt. Per file: each file used once per prompt."
+            >
+              {RUN_MODE_OPTIONS.map(opt => (
+                <option key={opt.value} value={opt.value}>{opt.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Concurrency Selector */}
+          <div className="w-24">
+            <label className="block text-xs font-mono text-slate-500 mb-2 uppercase">Parallel</label>
+            <select
+              className="w-full bg-slate-950 text-slate-200 border border-slate-700 rounded p-2.5 focus:border-amber-500 focus:outline-none"
+              value={concurrency}
+              onChange={(e) => setConcurrency(parseInt(e.target.value, 10))}
+              disabled={isProcessing}
+              title="Maximum number of requests in flight"
+            >
+              {Array.from({ length: MAX_CONCURRENCY - MIN_CONCURRENCY + 1 }, (_, i) => MIN_CONCURRENCY + i).map(n => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Variations Selector */}
+          <div className="w-24">
+            <label className="block text-xs font-mono text-slate-500 mb-2 uppercase">Variations</label>
+            <select
+              className="w-full bg-slate-950 text-slate-200 border border-slate-700 rounded p-2.5 focus:border-amber-500 focus:outline-none"
+              value={variations}
+              onChange={(e) => setVariations(parseInt(e.target.value, 10))}
+              disabled={isProcessing}
+              title="Images generated per prompt/reference pair (prompts can override)"
+            >
+              {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(n => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Cost Estimate and Budget */}
+          <BudgetSettings
+            settings={budgetSettings}
+            onChange={setBudgetSettings}
+            estimate={runEstimate}
+            spentToday={spentTodayTotal}
+            disabled={isProcessing}
+          />
+
           {/* Run Button */}
           <button
             onClick={handleProcess}
-            disabled={isProcessing || !hasKey || selectedFiles.length === 0 || !userDoc?.prompts?.some(p => p.enabled)}
-            className={`px-6 py-2.5 rounded font-bold flex items-center gap-2 transition ${isProcessing || !hasKey || selectedFiles.length === 0 || !userDoc?.prompts?.some(p => p.enabled)
+            disabled={!canRun}
+            className={`px-6 py-2.5 rounded font-bold flex items-center gap-2 transition ${!canRun
               ? 'bg-slate-800 text-slate-500 cursor-not-allowed'
               : 'bg-green-600 hover:bg-green-500 text-white shadow-lg shadow-green-900/20'
               }`}
@@ -707,6 +1687,39 @@ const App: React.FC = () => {
             RUN
           </button>
 
+          {/* Pause / Resume and Stop Buttons */}
+          {isProcessing && (
+            <>
+              <button
+                onClick={handlePauseResume}
+                className="px-4 py-2.5 rounded font-bold flex items-center gap-2 transition bg-slate-700 hover:bg-amber-600 text-white"
+                title={isPaused ? "Resume picking up new tasks" : "Stop picking up new tasks"}
+              >
+                {isPaused ? <Play size={20} /> : <Pause size={20} />}
+                {isPaused ? 'RESUME' : 'PAUSE'}
+              </button>
+              <button
+                onClick={handleStop}
+                className="px-4 py-2.5 rounded font-bold flex items-center gap-2 transition bg-slate-700 hover:bg-red-600 text-white"
+                title="Abort in-flight requests and cancel remaining tasks"
+              >
+                <Square size={20} />
+                STOP
+              </button>
+            </>
+          )}
+
+          {/* Download All Button */}
+          <button
+            onClick={handleDownloadAll}
+            disabled={isZipping || !results.some(r => r.status === 'completed')}
+            className="px-4 py-2.5 rounded font-bold flex items-center gap-2 transition bg-slate-700 hover:bg-slate-600 text-white disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed"
+            title="Download all completed images of this run as a ZIP"
+          >
+            {isZipping ? <Loader2 className="animate-spin" size={20} /> : <FileArchive size={20} />}
+            ALL
+          </button>
+
           {/* Clear Button */}
           <button
             onClick={handleClear}
@@ -736,40 +1749,33 @@ const App: React.FC = () => {
               </div>
             )}
 
-            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-              {results.map((res) => (
-                <div key={res.id} className="bg-slate-950 border border-slate-800 rounded-lg overflow-hidden flex flex-col group">
-                  <div className="aspect-square bg-slate-900 relative flex items-center justify-center">
-                    {res.status === 'processing' && <Loader2 className="animate-spin text-amber-500" size={32} />}
-                    {res.status === 'pending' && <span className="text-slate-700 text-xs">Waiting...</span>}
-                    {res.status === 'failed' && <AlertCircle className="text-red-500" size={32} />}
-                    {res.status === 'completed' && res.imageUrl && (
-                      <img
-                        src={res.imageUrl}
-                        alt="Generated"
-                        className="w-full h-full object-cover cursor-pointer"
-                        onClick={() => setLightboxImage(res)}
-                      />
-                    )}
-
-                    {/* Overlay Actions (desktop hover) */}
-                    {res.status === 'completed' && (
-                      <div
-                        className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition flex items-center justify-center cursor-pointer"
-                        onClick={() => setLightboxImage(res)}
-                      >
-                        <span className="text-white text-xs">Tap to view</span>
-                      </div>
-                    )}
-                  </div>
-                  <div className="p-3 border-t border-slate-800">
-                    <div className="text-xs text-slate-400 truncate" title={res.originalFileName}>{res.originalFileName}</div>
-                    <div className="text-xs font-bold text-slate-200 mt-1 truncate" title={res.promptName}>{res.promptName}</div>
-                    {res.error && <div className="text-[10px] text-red-400 mt-1 leading-tight">{res.error}</div>}
+            {results.some(r => r.variationCount > 1) ? (
+              // Variations: one heading per prompt/reference pair
+              <div className="space-y-6">
+                {groupResults(results).map(group => (
+                  <div key={group[0].groupId}>
+                    <div className="flex items-baseline gap-2 mb-2">
+                      <h3 className="text-sm font-bold text-slate-200 truncate">{group[0].promptName}</h3>
+                      <span className="text-xs text-slate-500 truncate">{describeSources(group[0])}</span>
+                      <span className="text-xs font-mono text-slate-500 ml-auto shrink-0">
+                        {group.filter(r => r.status === 'completed').length}/{group.length}
+                      </span>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+                      {group.map(res => (
+                        <ResultCard key={res.id} result={res} onView={setLightboxImage} />
+                      ))}
+                    </div>
                   </div>
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+                {results.map(res => (
+                  <ResultCard key={res.id} result={res} onView={setLightboxImage} />
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  auth, addAllowedEmail, removeAllowedEmail, listUserDocuments, adjustUsageTotals, resetUsageTotals, normalizeEmail, hasEmail, UserDocument
+} from '../services/firebase';
+import { ArrowLeft, Shield, UserPlus, Trash2, RotateCcw, SlidersHorizontal, RefreshCw, Loader2 } from 'lucide-react';
+
+type UserRow = UserDocument & { email: string };
+
+interface AdminPageProps {
+  allowedEmails: string[];
+  onAllowedEmailsChange: (emails: string[]) => void;
+}
+
+const formatActivity = (timestamp?: number) => timestamp ? new Date(timestamp).toLocaleString() : '—';
+
+export const AdminPage: React.FC<AdminPageProps> = ({ allowedEmails, onAllowedEmailsChange }) => {
+  const ownEmail = auth?.currentUser?.email || '';
+  const [users, setUsers] = useState<UserRow[] | null>(null);
+  const [newEmail, setNewEmail] = useState('');
+  const [adjusting, setAdjusting] = useState<string | null>(null);
+  const [adjustCost, setAdjustCost] = useState('');
+  const [adjustImages, setAdjustImages] = useState('');
+  const [adjustReason, setAdjustReason] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const loadUsers = () => {
+    setUsers(null);
+    listUserDocuments()
+      .then(list => setUsers(list.sort((a, b) => (b.last_activity ?? 0) - (a.last_activity ?? 0))))
+      .catch(error => {
+        console.error("Error loading users", error);
+        setStatus({ message: "Failed to load users.", type: 'error' });
+        setUsers([]);
+      });
+  };
+
+  useEffect(loadUsers, []);
+
+  // Runs an admin write, reporting the outcome on the page
+  const run = async (action: () => Promise<void>, success: string, failure: string) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      await action();
+      setStatus({ message: success, type: 'success' });
+    } catch (error) {
+      console.error(failure, error);
+      setStatus({ message: `${failure} ${error instanceof Error ? error.message : ''}`.trim(), type: 'error' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = normalizeEmail(newEmail);
+    if (!email) return;
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+      setStatus({ message: `"${email}" is not an email address.`, type: 'error' });
+      return;
+    }
+    if (hasEmail(allowedEmails, email)) {
+      setStatus({ message: `${email} already has access.`, type: 'error' });
+      return;
+    }
+    await run(async () => {
+      await addAllowedEmail(email);
+      onAllowedEmailsChange([...allowedEmails, email]);
+      setNewEmail('');
+    }, `Granted access to ${email}.`, "Failed to add email.");
+  };
+
+  const handleRemoveEmail = async (email: string) => {
+    if (!confirm(`Revoke access for ${email}?`)) return;
+    await run(async () => {
+      await removeAllowedEmail(email);
+      onAllowedEmailsChange(allowedEmails.filter(e => e !== email));
+    }, `Revoked access for ${email}.`, "Failed to remove email.");
+  };
+
+  const startAdjust = (email: string) => {
+    setAdjusting(adjusting === email ? null : email);
+    setAdjustCost('');
+    setAdjustImages('');
+    setAdjustReason('');
+  };
+
+  const handleAdjust = async (e: React.FormEvent, email: string) => {
+    e.preventDefault();
+    const cost = parseFloat(adjustCost || '0');
+    const images = parseInt(adjustImages || '0', 10);
+    if (isNaN(cost) || isNaN(images) || (cost === 0 && images === 0)) {
+      setStatus({ message: "Enter a cost or image change (negative values subtract).", type: 'error' });
+      return;
+    }
+    if (!adjustReason.trim()) {
+      setStatus({ message: "Enter a reason, it is kept in the user's usage ledger.", type: 'error' });
+      return;
+    }
+    await run(async () => {
+      await adjustUsageTotals(email, cost, images, ownEmail, adjustReason.trim());
+      setUsers(prev => prev && prev.map(u => u.email === email
+        ? { ...u, historic_cost: (u.historic_cost ?? 0) + cost, historic_images: (u.historic_images ?? 0) + images }
+        : u));
+      setAdjusting(null);
+    }, `Adjusted usage of ${email}.`, "Failed to adjust usage.");
+  };
+
+  const handleReset = async (email: string) => {
+    const reason = prompt(`Reset the usage totals of ${email} to zero? The usage ledger is kept and records the reset.\n\nReason:`);
+    if (reason === null) return;
+    if (!reason.trim()) {
+      setStatus({ message: "Enter a reason, it is kept in the user's usage ledger.", type: 'error' });
+      return;
+    }
+    await run(async () => {
+      await resetUsageTotals(email, ownEmail, reason.trim());
+      setUsers(prev => prev && prev.map(u => u.email === email ? { ...u, historic_cost: 0, historic_images: 0 } : u));
+    }, `Reset usage of ${email}.`, "Failed to reset usage.");
+  };
+
+  const inputClassName = "bg-slate-950 text-slate-200 border border-slate-700 rounded p-1.5 text-sm focus:border-amber-500 focus:outline-none";
+  const totalCost = (users || []).reduce((sum, u) => sum + (u.historic_cost ?? 0), 0);
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100">
+      <div className="max-w-5xl mx-auto p-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link to="/" className="text-slate-400 hover:text-white p-1" title="Back to the app">
+              <ArrowLeft size={20} />
+            </Link>
+            <h1 className="flex items-center gap-2 text-xl font-bold text-white">
+              <Shield size={20} className="text-amber-400" /> Admin
+            </h1>
+          </div>
+          <span className="text-xs text-slate-500">Signed in as <span className="text-slate-300">{ownEmail}</span></span>
+        </div>
+
+        {status && (
+          <div className={`text-sm px-3 py-2 rounded border ${status.type === 'error' ? 'bg-red-900/30 border-red-800 text-red-300' : 'bg-green-900/30 border-green-800 text-green-300'}`}>
+            {status.message}
+          </div>
+        )}
+
+        {/* Access list */}
+        <section className="bg-slate-800 border border-slate-700 rounded-lg p-4">
+          <h2 className="text-xs text-slate-400 uppercase font-mono font-semibold mb-3">Allowed Emails ({allowedEmails.length})</h2>
+          <form onSubmit={handleAddEmail} className="flex gap-2 mb-3">
+            <input
+              type="email"
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              placeholder="name@example.com"
+              className={`${inputClassName} flex-1`}
+            />
+            <button
+              type="submit"
+              disabled={busy || !newEmail.trim()}
+              className="flex items-center gap-1 bg-amber-600 hover:bg-amber-700 text-white px-3 py-1.5 rounded text-sm disabled:opacity-50"
+            >
+              <UserPlus size={14} /> Add
+            </button>
+          </form>
+          {allowedEmails.length === 0 ? (
+            <p className="text-sm text-slate-500">Nobody has access yet.</p>
+          ) : (
+            <ul className="divide-y divide-slate-700">
+              {[...allowedEmails].sort().map(email => (
+                <li key={email} className="flex items-center justify-between py-1.5 text-sm">
+                  <span className="text-slate-200">{email}</span>
+                  <button
+                    onClick={() => handleRemoveEmail(email)}
+                    disabled={busy || hasEmail([email], ownEmail)}
+                    className="text-slate-500 hover:text-red-400 p-1 disabled:opacity-30 disabled:hover:text-slate-500"
+                    title={hasEmail([email], ownEmail) ? "You cannot revoke your own access" : "Revoke access"}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* Users */}
+        <section className="bg-slate-800 border border-slate-700 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-xs text-slate-400 uppercase font-mono font-semibold">
+              Users {users && `(${users.length}, total $${totalCost.toFixed(2)})`}
+            </h2>
+            <button onClick={loadUsers} disabled={users === null} className="text-slate-400 hover:text-white p-1 disabled:opacity-50" title="Reload">
+              <RefreshCw size={14} />
+            </button>
+          </div>
+          {users === null ? (
+            <div className="flex justify-center py-8"><Loader2 className="animate-spin text-amber-400" /></div>
+          ) : users.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-8">No user documents yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-500 uppercase text-left">
+                  <th className="py-1 font-semibold">User</th>
+                  <th className="py-1 font-semibold">Last Activity</th>
+                  <th className="py-1 font-semibold text-right">Images</th>
+                  <th className="py-1 font-semibold text-right">Spend</th>
+                  <th className="py-1 font-semibold"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map(u => (
+                  <React.Fragment key={u.email}>
+                    <tr className="border-t border-slate-700">
+                      <td className="py-1.5 pr-2">
+                        <div className="text-slate-200">{u.email}</div>
+                        {(u.firstname || u.lastname) && (
+                          <div className="text-xs text-slate-500">{[u.firstname, u.lastname].filter(Boolean).join(' ')}</div>
+                        )}
+                        {!hasEmail(allowedEmails, u.email) && <div className="text-xs text-red-400">No access</div>}
+                      </td>
+                      <td className="py-1.5 pr-2 text-slate-400">{formatActivity(u.last_activity)}</td>
+                      <td className="py-1.5 text-right text-slate-400 font-mono">{u.historic_images ?? 0}</td>
+                      <td className="py-1.5 text-right text-green-400 font-mono">${(u.historic_cost ?? 0).toFixed(4)}</td>
+                      <td className="py-1.5 pl-2 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => startAdjust(u.email)}
+                          disabled={busy}
+                          className={`p-1 hover:text-white disabled:opacity-50 ${adjusting === u.email ? 'text-amber-400' : 'text-slate-400'}`}
+                          title="Adjust usage"
+                        >
+                          <SlidersHorizontal size={14} />
+                        </button>
+                        <button
+                          onClick={() => handleReset(u.email)}
+                          disabled={busy}
+                          className="p-1 text-slate-400 hover:text-red-400 disabled:opacity-50"
+                          title="Reset usage to zero"
+                        >
+                          <RotateCcw size={14} />
+                        </button>
+                      </td>
+                    </tr>
+                    {adjusting === u.email && (
+                      <tr>
+                        <td colSpan={5} className="pb-2">
+                          <form onSubmit={(e) => handleAdjust(e, u.email)} className="flex flex-wrap items-center gap-2 bg-slate-900 rounded p-2" title="Negative values subtract">
+                            <label className="text-xs text-slate-400">Spend $</label>
+                            <input type="number" step="0.0001" value={adjustCost} onChange={(e) => setAdjustCost(e.target.value)} placeholder="0" className={`${inputClassName} w-28`} />
+                            <label className="text-xs text-slate-400">Images</label>
+                            <input type="number" step="1" value={adjustImages} onChange={(e) => setAdjustImages(e.target.value)} placeholder="0" className={`${inputClassName} w-20`} />
+                            <input type="text" value={adjustReason} onChange={(e) => setAdjustReason(e.target.value)} placeholder="Reason (kept in the ledger)" className={`${inputClassName} flex-1 min-w-[12rem]`} />
+                            <div className="ml-auto flex gap-2">
+                              <button type="button" onClick={() => setAdjusting(null)} className="text-sm text-slate-400 hover:text-white px-2">Cancel</button>
+                              <button type="submit" disabled={busy} className="bg-amber-600 hover:bg-amber-700 text-white px-3 py-1 rounded text-sm disabled:opacity-50">Apply</button>
+                            </div>
+                          </form>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
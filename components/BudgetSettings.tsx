@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { BudgetSettings as BudgetSettingsValue, RunEstimate } from '../services/budget';
+import { Wallet } from 'lucide-react';
+
+interface BudgetSettingsProps {
+  settings: BudgetSettingsValue;
+  onChange: (settings: BudgetSettingsValue) => void;
+  estimate: RunEstimate | null;   // Null when there is nothing to run
+  spentToday: number;
+  disabled?: boolean;
+}
+
+const formatUsd = (value: number) => `$${value.toFixed(value > 0 && value < 0.1 ? 3 : 2)}`;
+
+export const BudgetSettings: React.FC<BudgetSettingsProps> = ({ settings, onChange, estimate, spentToday, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (patch: Partial<BudgetSettingsValue>) => onChange({ ...settings, ...patch });
+  const parseCap = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+  const overRun = !!estimate && settings.perRun > 0 && estimate.total > settings.perRun;
+  const overDay = !!estimate && settings.perDay > 0 && spentToday + estimate.total > settings.perDay;
+  const summary = estimate ? `~${formatUsd(estimate.total)}` : '-';
+
+  const inputClassName = "w-full bg-slate-950 text-slate-200 border border-slate-700 rounded p-1.5 text-sm focus:border-amber-500 focus:outline-none";
+
+  return (
+    <div className="relative w-28">
+      <label className="block text-xs font-mono text-slate-500 mb-2 uppercase">Estimate</label>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`w-full bg-slate-950 border rounded p-2.5 flex items-center justify-between gap-2 focus:border-amber-500 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed ${overRun || overDay ? 'border-red-700 text-red-300' : 'border-slate-700 text-slate-200'}`}
+        title="Estimated cost of the next run and budget caps"
+      >
+        <span className="truncate text-sm">{summary}</span>
+        <Wallet size={14} className="text-slate-500 shrink-0" />
+      </button>
+
+      {isOpen && !disabled && (
+        <div className="absolute top-full left-0 mt-2 w-72 bg-slate-800 border border-slate-700 rounded p-3 shadow-xl z-50 space-y-3">
+          {estimate ? (
+            <div className="text-xs text-slate-300 space-y-1">
+              <div className="flex justify-between"><span>Tasks</span><span>{estimate.taskCount}</span></div>
+              <div className="flex justify-between">
+                <span>Per image</span>
+                <span>~{formatUsd(estimate.taskCount > 0 ? estimate.total / estimate.taskCount : 0)}</span>
+              </div>
+              <div className="flex justify-between font-semibold"><span>Run total</span><span>~{formatUsd(estimate.total)}</span></div>
+              <p className="text-[10px] text-slate-500">
+                {estimate.sampleCount > 0
+                  ? `Average token usage of up to ${estimate.sampleCount} recent generation(s) with this model.`
+                  : 'No history for this model yet, using typical token counts.'}
+              </p>
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500">Select prompts and files to see an estimate.</p>
+          )}
+
+          <div className="pt-3 border-t border-slate-700 space-y-2">
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Cap per run (USD, 0 = none)</label>
+              <input type="number" min="0" step="0.5" value={settings.perRun} onChange={(e) => update({ perRun: parseCap(e.target.value) })} className={inputClassName} />
+              {overRun && <p className="text-[10px] text-red-400 mt-1">The estimate is above this cap, the run stops queueing when it is reached.</p>}
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Cap per day (USD, 0 = none)</label>
+              <input type="number" min="0" step="1" value={settings.perDay} onChange={(e) => update({ perDay: parseCap(e.target.value) })} className={inputClassName} />
+              <p className={`text-[10px] mt-1 ${overDay ? 'text-red-400' : 'text-slate-500'}`}>Spent today: {formatUsd(spentToday)}</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Combo } from '../models/Combo';
+import { Layers, Plus, X } from 'lucide-react';
+
+interface ComboBarProps {
+  combos: Combo[];
+  activeName?: string;
+  canSave: boolean; // At least one prompt enabled
+  onApply: (combo: Combo) => void;
+  onSaveCurrent: (name: string) => void;
+  onDelete: (name: string) => void;
+}
+
+export const ComboBar: React.FC<ComboBarProps> = ({ combos, activeName, canSave, onApply, onSaveCurrent, onDelete }) => {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (combos.some(c => c.name === trimmed) && !confirm(`Replace set "${trimmed}" with the enabled prompts?`)) return;
+    onSaveCurrent(trimmed);
+    setName('');
+    setIsNaming(false);
+  };
+
+  const handleDelete = (combo: Combo) => {
+    if (confirm(`Delete set "${combo.name}"? The prompts themselves are kept.`)) {
+      onDelete(combo.name);
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="flex items-center gap-1 text-xs text-slate-400 mb-1">
+        <Layers size={12} /> Sets
+      </label>
+      <div className="flex flex-wrap gap-1.5">
+        {combos.map(combo => (
+          <div
+            key={combo.name}
+            className={`group flex items-center rounded border text-xs transition ${combo.name === activeName
+              ? 'bg-amber-900/40 border-amber-600 text-amber-200'
+              : 'bg-slate-950 border-slate-700 text-slate-300 hover:border-slate-500'
+              }`}
+          >
+            <button
+              onClick={() => onApply(combo)}
+              className="px-2 py-1"
+              title={`Enable: ${combo.prompts.join(', ')}`}
+            >
+              {combo.name}
+            </button>
+            <button
+              onClick={() => handleDelete(combo)}
+              className="pr-1.5 text-slate-500 hover:text-red-400 hidden group-hover:block"
+              title="Delete set"
+            >
+              <X size={10} />
+            </button>
+          </div>
+        ))}
+
+        {isNaming ? (
+          <div className="flex items-center gap-1">
+            <input
+              autoFocus
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave();
+                if (e.key === 'Escape') setIsNaming(false);
+              }}
+              placeholder="Set name..."
+              className="w-28 bg-slate-950 text-slate-200 text-xs px-2 py-1 rounded border border-slate-700 focus:border-amber-500 focus:outline-none"
+            />
+            <button onClick={handleSave} disabled={!name.trim()} className="text-xs text-green-400 hover:text-green-300 disabled:text-slate-600">
+              Save
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsNaming(true)}
+            disabled={!canSave}
+            className="flex items-center gap-1 px-2 py-1 rounded border border-dashed border-slate-700 text-xs text-slate-400 hover:text-slate-200 hover:border-slate-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Save the enabled prompts as a named set"
+          >
+            <Plus size={10} /> Save enabled
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { DEFAULT_FILENAME_TEMPLATE, FILENAME_TOKENS } from '../services/fileNaming';
+import { MetadataOptions } from '../services/imageMetadata';
+import { FileText, RotateCcw } from 'lucide-react';
+
+interface DownloadSettingsProps {
+  template: string;
+  onChange: (template: string) => void;
+  metadata: MetadataOptions;
+  onMetadataChange: (options: MetadataOptions) => void;
+}
+
+export const DownloadSettings: React.FC<DownloadSettingsProps> = ({ template, onChange, metadata, onMetadataChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative w-36">
+      <label className="block text-xs font-mono text-slate-500 mb-2 uppercase">Downloads</label>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full bg-slate-950 text-slate-200 border border-slate-700 rounded p-2.5 flex items-center justify-between gap-2 focus:border-amber-500 focus:outline-none"
+        title="How downloaded images are named and what they record"
+      >
+        <span className="truncate text-sm font-mono">{template}</span>
+        <FileText size={14} className="text-slate-500 shrink-0" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-72 bg-slate-800 border border-slate-700 rounded p-3 shadow-xl z-50 space-y-3">
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Template</label>
+            <div className="flex gap-1">
+              <input
+                type="text"
+                value={template}
+                onChange={(e) => onChange(e.target.value)}
+                placeholder={DEFAULT_FILENAME_TEMPLATE}
+                className="flex-1 min-w-0 bg-slate-950 text-slate-200 border border-slate-700 rounded p-1.5 text-sm font-mono focus:border-amber-500 focus:outline-none"
+              />
+              <button
+                onClick={() => onChange(DEFAULT_FILENAME_TEMPLATE)}
+                className="px-1.5 text-slate-500 hover:text-slate-200"
+                title="Reset to default"
+              >
+                <RotateCcw size={14} />
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            {FILENAME_TOKENS.map(({ token, description }) => (
+              <button
+                key={token}
+                onClick={() => onChange(`${template}${template && !/[_\-. ]$/.test(template) ? '_' : ''}${token}`)}
+                className="w-full flex items-baseline gap-2 text-left text-xs hover:bg-slate-700 rounded px-1 py-0.5"
+                title="Append to the template"
+              >
+                <code className="text-amber-400 shrink-0">{token}</code>
+                <span className="text-slate-400 truncate">{description}</span>
+              </button>
+            ))}
+          </div>
+
+          <p className="text-[10px] text-slate-500">
+            The extension follows the image format. Illegal characters are replaced and repeated names get _2, _3...
+          </p>
+
+          <div className="pt-3 border-t border-slate-700 space-y-2">
+            <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={metadata.embed}
+                onChange={(e) => onMetadataChange({ ...metadata, embed: e.target.checked })}
+                className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-amber-500 focus:ring-amber-500 focus:ring-offset-0"
+              />
+              Embed prompt and settings (PNG text / JPEG XMP)
+            </label>
+            <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={metadata.sidecar}
+                onChange={(e) => onMetadataChange({ ...metadata, sidecar: e.target.checked })}
+                className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-amber-500 focus:ring-amber-500 focus:ring-offset-0"
+              />
+              Also save a .json sidecar
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,289 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GalleryEntry, listGalleryEntries, deleteGalleryEntries } from '../services/gallery';
+import { getModelOptions } from '../services/providers';
+import { downloadBlob } from '../services/download';
+import { formatFileName, uniqueFileName } from '../services/fileNaming';
+import { buildResultsZip, exportFiles } from '../services/resultExport';
+import { MetadataOptions } from '../services/imageMetadata';
+import { Download, FileArchive, Images, Loader2, Search, Trash2, X } from 'lucide-react';
+
+const MODEL_OPTIONS = getModelOptions();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DateRange = 'all' | 'today' | '7d' | '30d';
+
+const DATE_RANGES: Array<{ value: DateRange; label: string }> = [
+  { value: 'all', label: 'All time' },
+  { value: 'today', label: 'Today' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+];
+
+const rangeStart = (range: DateRange): number => {
+  if (range === 'all') return 0;
+  const startOfToday = new Date().setHours(0, 0, 0, 0);
+  return range === 'today' ? startOfToday : startOfToday - (range === '7d' ? 6 : 29) * DAY_MS;
+};
+
+const modelLabel = (model: string) => MODEL_OPTIONS.find(m => m.value === model)?.label || model;
+
+const matchesSearch = (entry: GalleryEntry, text: string): boolean => {
+  if (!text) return true;
+  const haystack = [entry.promptName, entry.promptText, entry.comboName, entry.refinement, ...entry.sourceNames]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+  return haystack.includes(text.toLowerCase());
+};
+
+const describeEntrySources = (entry: GalleryEntry): string => {
+  if (entry.sourceNames.length === 0) return 'Text only';
+  return `${entry.sourceNames[0]}${entry.sourceNames.length > 1 ? ` +${entry.sourceNames.length - 1}` : ''}`;
+};
+
+interface GalleryViewProps {
+  onClose: () => void;
+  onLog: (message: string, type: 'info' | 'success' | 'warning' | 'error') => void;
+  fileNameTemplate: string;
+  metadataOptions: MetadataOptions;
+}
+
+export const GalleryView: React.FC<GalleryViewProps> = ({ onClose, onLog, fileNameTemplate, metadataOptions }) => {
+  const [entries, setEntries] = useState<GalleryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [dateRange, setDateRange] = useState<DateRange>('all');
+  const [promptFilter, setPromptFilter] = useState('');
+  const [modelFilter, setModelFilter] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [detail, setDetail] = useState<GalleryEntry | null>(null);
+  const [isZipping, setIsZipping] = useState(false);
+  const downloadedNamesRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    listGalleryEntries()
+      .then(setEntries)
+      .catch(error => {
+        console.error("Error loading gallery", error);
+        onLog("Failed to load the gallery.", "error");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // One object URL per stored image, released when the list changes or the view closes
+  const urls = useMemo(() => new Map(entries.map(e => [e.id, URL.createObjectURL(e.blob)])), [entries]);
+  useEffect(() => () => urls.forEach(url => URL.revokeObjectURL(url)), [urls]);
+
+  const promptNames = useMemo(() => Array.from(new Set(entries.map(e => e.promptName))).sort(), [entries]);
+  const models = useMemo(() => Array.from(new Set(entries.map(e => e.model))), [entries]);
+
+  const filtered = useMemo(() => {
+    const start = rangeStart(dateRange);
+    return entries.filter(e =>
+      e.createdAt >= start
+      && (!promptFilter || e.promptName === promptFilter)
+      && (!modelFilter || e.model === modelFilter)
+      && matchesSearch(e, search.trim())
+    );
+  }, [entries, dateRange, promptFilter, modelFilter, search]);
+
+  // Newest day first, entries within a day newest first
+  const days = useMemo(() => {
+    const groups: Array<{ label: string; entries: GalleryEntry[] }> = [];
+    filtered.forEach(entry => {
+      const label = new Date(entry.createdAt).toLocaleDateString(undefined, { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' });
+      const last = groups[groups.length - 1];
+      if (last && last.label === label) last.entries.push(entry);
+      else groups.push({ label, entries: [entry] });
+    });
+    return groups;
+  }, [filtered]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  };
+
+  const handleDelete = async (ids: string[]) => {
+    if (ids.length === 0 || !confirm(`Delete ${ids.length} image(s) from the gallery? This cannot be undone.`)) return;
+    try {
+      await deleteGalleryEntries(ids);
+      setEntries(prev => prev.filter(e => !ids.includes(e.id)));
+      setSelectedIds(prev => prev.filter(id => !ids.includes(id)));
+      if (detail && ids.includes(detail.id)) setDetail(null);
+      onLog(`Deleted ${ids.length} image(s) from the gallery.`, "info");
+    } catch (error) {
+      console.error("Error deleting gallery entries", error);
+      onLog("Failed to delete from the gallery.", "error");
+    }
+  };
+
+  const handleDownloadZip = async () => {
+    const selected = entries.filter(e => selectedIds.includes(e.id));
+    if (selected.length === 0) return;
+    setIsZipping(true);
+    try {
+      downloadBlob(await buildResultsZip(selected, fileNameTemplate, metadataOptions), `banana_gallery_${new Date().toISOString().slice(0, 10)}.zip`);
+      onLog(`Packaged ${selected.length} gallery image(s) into a ZIP.`, "success");
+    } catch (error: any) {
+      console.error("Error building ZIP", error);
+      onLog(`Failed to build ZIP: ${error.message}`, "error");
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const handleDownload = async (entry: GalleryEntry) => {
+    const name = uniqueFileName(await formatFileName(fileNameTemplate, entry), downloadedNamesRef.current);
+    (await exportFiles(entry, name, metadataOptions)).forEach(file => downloadBlob(file.blob, file.name));
+  };
+
+  const selectClassName = "bg-slate-950 text-slate-200 border border-slate-700 rounded p-1.5 text-sm focus:border-amber-500 focus:outline-none";
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-950 flex flex-col">
+      {/* Header */}
+      <div className="px-6 py-4 border-b border-slate-800 flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2 text-white font-bold mr-4">
+          <Images size={20} /> Gallery
+          <span className="text-xs font-normal text-slate-500">{filtered.length}/{entries.length}</span>
+        </div>
+
+        <div className="relative">
+          <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search prompt, file..."
+            className={`${selectClassName} pl-7 w-56`}
+          />
+        </div>
+        <select value={dateRange} onChange={(e) => setDateRange(e.target.value as DateRange)} className={selectClassName}>
+          {DATE_RANGES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+        </select>
+        <select value={promptFilter} onChange={(e) => setPromptFilter(e.target.value)} className={`${selectClassName} max-w-[12rem]`}>
+          <option value="">All prompts</option>
+          {promptNames.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <select value={modelFilter} onChange={(e) => setModelFilter(e.target.value)} className={selectClassName}>
+          <option value="">All models</option>
+          {models.map(model => <option key={model} value={model}>{modelLabel(model)}</option>)}
+        </select>
+
+        <div className="ml-auto flex items-center gap-3 text-sm">
+          {selectedIds.length > 0 ? (
+            <>
+              <span className="text-slate-400">{selectedIds.length} selected</span>
+              <button onClick={() => setSelectedIds([])} className="text-slate-400 hover:text-white">Clear</button>
+              <button onClick={handleDownloadZip} disabled={isZipping} className="flex items-center gap-1 text-slate-200 hover:text-white disabled:text-slate-500">
+                {isZipping ? <Loader2 size={14} className="animate-spin" /> : <FileArchive size={14} />} ZIP
+              </button>
+              <button onClick={() => handleDelete(selectedIds)} className="flex items-center gap-1 text-red-400 hover:text-red-300">
+                <Trash2 size={14} /> Delete
+              </button>
+            </>
+          ) : (
+            filtered.length > 0 && (
+              <button onClick={() => setSelectedIds(filtered.map(e => e.id))} className="text-slate-400 hover:text-white">Select all</button>
+            )
+          )}
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-1">
+            <X size={22} />
+          </button>
+        </div>
+      </div>
+
+      {/* Entries by day */}
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        {isLoading && (
+          <div className="h-full flex items-center justify-center">
+            <Loader2 className="animate-spin text-amber-500" size={32} />
+          </div>
+        )}
+        {!isLoading && filtered.length === 0 && (
+          <div className="h-full flex flex-col items-center justify-center text-slate-600 gap-4">
+            <Images size={48} className="opacity-20" />
+            <p>{entries.length === 0 ? 'Completed images are kept here across reloads.' : 'No images match the filters.'}</p>
+          </div>
+        )}
+
+        {days.map(day => (
+          <div key={day.label}>
+            <h3 className="text-sm font-bold text-slate-300 mb-2">{day.label}</h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 xl:grid-cols-8 gap-3">
+              {day.entries.map(entry => (
+                <div
+                  key={entry.id}
+                  className={`bg-slate-900 border rounded-lg overflow-hidden ${selectedIds.includes(entry.id) ? 'border-amber-500' : 'border-slate-800'}`}
+                >
+                  <div className="aspect-square relative">
+                    <img
+                      src={urls.get(entry.id)}
+                      alt={entry.promptName}
+                      loading="lazy"
+                      className="w-full h-full object-cover cursor-pointer"
+                      onClick={() => setDetail(entry)}
+                    />
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(entry.id)}
+                      onChange={() => toggleSelected(entry.id)}
+                      className="absolute top-2 left-2 w-4 h-4 accent-amber-500 cursor-pointer"
+                    />
+                  </div>
+                  <div className="p-2">
+                    <div className="text-xs font-bold text-slate-200 truncate" title={entry.promptName}>{entry.promptName}</div>
+                    <div className="text-[10px] text-slate-500 truncate">{describeEntrySources(entry)}</div>
+                    <div className="text-[10px] text-slate-500 font-mono truncate">
+                      {new Date(entry.createdAt).toLocaleTimeString()} · {entry.imageSize}{entry.cost !== undefined && ` · $${entry.cost.toFixed(3)}`}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Detail */}
+      {detail && (
+        <div className="fixed inset-0 z-[110] bg-black/95 flex flex-col items-center justify-center p-4" onClick={() => setDetail(null)}>
+          <img
+            src={urls.get(detail.id)}
+            alt={detail.promptName}
+            className="max-w-full max-h-[65vh] object-contain rounded-lg"
+            onClick={(e) => e.stopPropagation()}
+          />
+          <div className="mt-4 w-full max-w-2xl space-y-2 text-center" onClick={(e) => e.stopPropagation()}>
+            <div className="text-white font-bold">
+              {detail.promptName}
+              {detail.comboName && <span className="ml-2 text-xs font-normal text-amber-400">{detail.comboName}</span>}
+            </div>
+            <div className="text-slate-400 text-sm">{detail.sourceNames.join(', ') || 'Text only'}</div>
+            <div className="text-slate-500 text-xs font-mono">
+              {modelLabel(detail.model)} · {detail.aspectRatio} · {detail.imageSize} · t{detail.temperature.toFixed(1)}
+              {detail.usage && ` · ${detail.usage.total.toLocaleString()} tokens`}
+              {detail.cost !== undefined && ` · $${detail.cost.toFixed(4)}`}
+            </div>
+            {detail.refinement && <div className="text-xs text-amber-300">Refined: {detail.refinement}</div>}
+            <div className="text-xs text-slate-400 whitespace-pre-wrap max-h-24 overflow-y-auto text-left bg-slate-900 rounded p-2">{detail.promptText}</div>
+            <div className="flex justify-center gap-3 pt-2">
+              <button
+                onClick={() => handleDownload(detail)}
+                className="bg-white text-black py-2 px-5 rounded-xl font-bold flex items-center gap-2"
+              >
+                <Download size={16} /> Download
+              </button>
+              <button
+                onClick={() => handleDelete([detail.id])}
+                className="bg-slate-800 hover:bg-slate-700 text-red-400 py-2 px-5 rounded-xl font-bold flex items-center gap-2"
+              >
+                <Trash2 size={16} /> Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
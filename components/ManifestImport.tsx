@@ -0,0 +1,49 @@
+import React, { useRef } from 'react';
+import { Manifest } from '../services/manifest';
+import { FileSpreadsheet, X } from 'lucide-react';
+
+interface ManifestImportProps {
+  manifest: Manifest | null;
+  onLoad: (file: File) => void;
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+export const ManifestImport: React.FC<ManifestImportProps> = ({ manifest, onLoad, onClear, disabled = false }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onLoad(file);
+  };
+
+  return (
+    <>
+      {manifest ? (
+        <div
+          className="flex items-center gap-2 bg-amber-900/30 text-amber-200 px-3 py-2 rounded-md border border-amber-700/50"
+          title="RUN follows the manifest rows instead of enabled prompts x files"
+        >
+          <FileSpreadsheet size={18} />
+          <span className="text-sm max-w-[12rem] truncate">{manifest.name}</span>
+          <span className="text-xs text-amber-400/80">{manifest.rows.length} rows</span>
+          <button onClick={onClear} disabled={disabled} className="text-amber-400/80 hover:text-white disabled:opacity-50" title="Remove manifest">
+            <X size={14} />
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          className="flex items-center gap-2 bg-slate-800 hover:bg-slate-700 text-slate-200 px-4 py-2 rounded-md transition border border-slate-700 disabled:opacity-50"
+          title="Import a CSV/JSON manifest: one row per generation (files, prompt, variables, overrides)"
+        >
+          <FileSpreadsheet size={18} />
+          <span className="hidden md:inline">Manifest</span>
+        </button>
+      )}
+      <input ref={fileInputRef} type="file" accept=".csv,.tsv,.json,text/csv,application/json" onChange={handleSelect} className="hidden" />
+    </>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageMetadata, readMetadata } from '../services/imageMetadata';
+import { getModelOptions } from '../services/providers';
+import { AlertCircle, Check, Copy, FileSearch, Upload, X } from 'lucide-react';
+
+const MODEL_OPTIONS = getModelOptions();
+
+interface MetadataInspectorProps {
+  onClose: () => void;
+}
+
+export const MetadataInspector: React.FC<MetadataInspectorProps> = ({ onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [metadata, setMetadata] = useState<ImageMetadata | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  const inspect = async (file: File) => {
+    setFileName(file.name);
+    setPreviewUrl(file.type.startsWith('image/') ? URL.createObjectURL(file) : null);
+    setCopied(false);
+    try {
+      const found = await readMetadata(file);
+      setMetadata(found);
+      setError(found ? null : 'No generation metadata found in this file.');
+    } catch (err: any) {
+      setMetadata(null);
+      setError(`Could not read ${file.name}: ${err.message}`);
+    }
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) inspect(file);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) inspect(file);
+  };
+
+  const handleCopy = async () => {
+    if (!metadata) return;
+    try {
+      await navigator.clipboard.writeText(metadata.prompt);
+      setCopied(true);
+    } catch (error) {
+      console.error("Failed to copy the prompt", error);
+    }
+  };
+
+  const rows: Array<[string, string | undefined]> = metadata ? [
+    ['Prompt name', metadata.promptName],
+    ['Prompt set', metadata.comboName],
+    ['Refinement', metadata.refinement],
+    ['Model', MODEL_OPTIONS.find(m => m.value === metadata.model)?.label || metadata.model],
+    ['Aspect ratio', metadata.aspectRatio],
+    ['Size', metadata.imageSize],
+    ['Temperature', metadata.temperature?.toString()],
+    ['Variation', metadata.variation],
+    ['Created', metadata.createdAt && new Date(metadata.createdAt).toLocaleString()],
+    ['Sources', metadata.sources?.length ? metadata.sources.join(', ') : 'Text only'],
+  ] : [];
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black/90 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-lg w-full max-w-lg max-h-[90vh] flex flex-col shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-2 text-white font-bold">
+            <FileSearch size={18} /> Inspect Image
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* Drop zone */}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`w-full flex flex-col items-center justify-center gap-2 rounded border border-dashed p-6 text-sm transition ${isDragging ? 'border-amber-500 bg-amber-900/20 text-amber-300' : 'border-slate-600 bg-slate-950 hover:bg-slate-900 text-slate-300'}`}
+          >
+            <Upload size={18} />
+            {fileName || 'Drop a downloaded image or .json sidecar here, or click to choose'}
+          </button>
+          <input ref={fileInputRef} type="file" accept="image/png,image/jpeg,.json,application/json" onChange={handleFileSelect} className="hidden" />
+
+          {error && (
+            <div className="flex items-start gap-2 text-xs text-red-400">
+              <AlertCircle size={14} className="shrink-0" /> {error}
+            </div>
+          )}
+
+          {metadata && (
+            <div className="flex gap-4">
+              {previewUrl && <img src={previewUrl} alt={fileName} className="w-24 h-24 object-cover rounded border border-slate-700 shrink-0" />}
+              <dl className="flex-1 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                {rows.filter(([, value]) => value).map(([label, value]) => (
+                  <React.Fragment key={label}>
+                    <dt className="text-slate-500">{label}</dt>
+                    <dd className="text-slate-200 break-words">{value}</dd>
+                  </React.Fragment>
+                ))}
+              </dl>
+            </div>
+          )}
+
+          {metadata && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-slate-500">Prompt</span>
+                <button onClick={handleCopy} className="flex items-center gap-1 text-xs text-slate-400 hover:text-white">
+                  {copied ? <Check size={12} className="text-green-400" /> : <Copy size={12} />} {copied ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+              <pre className="bg-slate-950 border border-slate-800 rounded p-2 text-xs text-slate-300 whitespace-pre-wrap max-h-48 overflow-y-auto">{metadata.prompt}</pre>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { PreprocessOptions, PreprocessFormat, MAX_EDGE_OPTIONS } from '../services/imagePreprocessor';
+import { SlidersHorizontal } from 'lucide-react';
+
+interface PreprocessSettingsProps {
+  options: PreprocessOptions;
+  onChange: (options: PreprocessOptions) => void;
+  disabled?: boolean;
+}
+
+export const PreprocessSettings: React.FC<PreprocessSettingsProps> = ({ options, onChange, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (patch: Partial<PreprocessOptions>) => onChange({ ...options, ...patch });
+
+  const summary = !options.enabled
+    ? 'Original'
+    : `${options.maxEdge > 0 ? `${options.maxEdge}px` : 'Full'} ${options.format === 'image/webp' ? 'WebP' : 'JPEG'}`;
+
+  return (
+    <div className="relative w-36">
+      <label className="block text-xs font-mono text-slate-500 mb-2 uppercase">Upload</label>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="w-full bg-slate-950 text-slate-200 border border-slate-700 rounded p-2.5 flex items-center justify-between gap-2 focus:border-amber-500 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+        title="How reference pictures are prepared before upload"
+      >
+        <span className="truncate text-sm">{summary}</span>
+        <SlidersHorizontal size={14} className="text-slate-500 shrink-0" />
+      </button>
+
+      {isOpen && !disabled && (
+        <div className="absolute top-full left-0 mt-2 w-64 bg-slate-800 border border-slate-700 rounded p-3 shadow-xl z-50 space-y-3">
+          <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+              className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-amber-500 focus:ring-amber-500 focus:ring-offset-0"
+            />
+            Resize and re-encode (strips EXIF/GPS)
+          </label>
+
+          <div className={options.enabled ? 'space-y-3' : 'space-y-3 opacity-50 pointer-events-none'}>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Max edge</label>
+              <select
+                className="w-full bg-slate-950 text-slate-200 border border-slate-700 rounded p-1.5 text-sm focus:border-amber-500 focus:outline-none"
+                value={options.maxEdge}
+                onChange={(e) => update({ maxEdge: parseInt(e.target.value, 10) })}
+              >
+                {MAX_EDGE_OPTIONS.map(edge => (
+                  <option key={edge} value={edge}>{edge > 0 ? `${edge}px` : 'Keep size'}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Format</label>
+              <select
+                className="w-full bg-slate-950 text-slate-200 border border-slate-700 rounded p-1.5 text-sm focus:border-amber-500 focus:outline-none"
+                value={options.format}
+                onChange={(e) => update({ format: e.target.value as PreprocessFormat })}
+              >
+                <option value="image/jpeg">JPEG</option>
+                <option value="image/webp">WebP</option>
+              </select>
+              <p className="text-[10px] text-slate-500 mt-1">PNG and transparent pictures stay PNG.</p>
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Quality: {Math.round(options.quality * 100)}</label>
+              <input
+                type="range"
+                min="0.5"
+                max="1"
+                step="0.05"
+                value={options.quality}
+                onChange={(e) => update({ quality: parseFloat(e.target.value) })}
+                className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-amber-500"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,19 +1,39 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Plus, Trash2, Loader2, Check, GripVertical } from 'lucide-react';
+import { Plus, Trash2, Loader2, Check, GripVertical, ChevronDown, ChevronRight, History, FileJson } from 'lucide-react';
+import { Prompt, PromptData, PromptOverrides, MAX_VARIATIONS } from '../models/Prompt';
+import { Combo, applyCombo, findActiveCombo, renamePromptInCombos } from '../models/Combo';
+import { ComboBar } from './ComboBar';
+import { getModelOptions } from '../services/providers';
+import { ASPECT_RATIOS, IMAGE_SIZES } from '../services/imageProvider';
+
+const MODEL_OPTIONS = getModelOptions();
+
+// Short summary of a prompt's active overrides, e.g. "9:16 · 4K · x4"
+const describeOverrides = (item: PromptItem): string => {
+  const parts: string[] = [];
+  if (item.aspect_ratio) parts.push(item.aspect_ratio);
+  if (item.image_size) parts.push(item.image_size);
+  if (item.model) parts.push(MODEL_OPTIONS.find(m => m.value === item.model)?.label || item.model);
+  if (item.temperature !== undefined) parts.push(`t${item.temperature}`);
+  if (item.variations !== undefined) parts.push(`x${item.variations}`);
+  return parts.join(' · ');
+};
 
-interface PromptItem {
-  name: string;
-  prompt: string;
-  enabled: boolean;
-  skip_beforeafter_prompt: boolean;
-}
+type PromptItem = PromptData;
+
+const selectClassName = "w-full bg-slate-900 text-slate-300 text-xs px-1.5 py-1 rounded border border-slate-700 focus:border-amber-500 focus:outline-none";
 
 interface PromptEditorProps {
-  prompts: Array<{ name: string; prompt: string; enabled: boolean; skip_beforeafter_prompt: boolean }>;
+  prompts: PromptData[];
   promptBefore?: string;
   promptAfter?: string;
-  onSave: (prompts: Array<{ name: string; prompt: string; enabled: boolean; skip_beforeafter_prompt: boolean }>, promptBefore: string, promptAfter: string) => void;
-  onChange?: (prompts: Array<{ name: string; prompt: string; enabled: boolean; skip_beforeafter_prompt: boolean }>, promptBefore: string, promptAfter: string) => void;
+  onSave: (prompts: PromptData[], promptBefore: string, promptAfter: string) => void;
+  onChange?: (prompts: PromptData[], promptBefore: string, promptAfter: string) => void;
+  combos?: Combo[];
+  onSaveCombos?: (combos: Combo[]) => void;
+  onShowHistory?: () => void;
+  onShowLibrary?: () => void;
+  shared?: React.ReactNode; // Shared collections, listed below the personal prompts
   isSaving?: boolean;
 }
 
@@ -23,6 +43,11 @@ export const PromptEditor: React.FC<PromptEditorProps> = ({
   promptAfter = '',
   onSave,
   onChange,
+  combos = [],
+  onSaveCombos,
+  onShowHistory,
+  onShowLibrary,
+  shared,
   isSaving = false
 }) => {
   const [items, setItems] = useState<PromptItem[]>([]);
@@ -31,6 +56,7 @@ export const PromptEditor: React.FC<PromptEditorProps> = ({
   const [hasChanges, setHasChanges] = useState(false);
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
   const lastInputTime = useRef<number>(Date.now());
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const itemsRef = useRef<PromptItem[]>([]);
@@ -38,6 +64,7 @@ export const PromptEditor: React.FC<PromptEditorProps> = ({
   const afterTextRef = useRef<string>(promptAfter);
   const isLocalChange = useRef(false);
   const isInitialized = useRef(false);
+  const nameAtFocus = useRef<string | null>(null);
 
   // Keep refs in sync
   useEffect(() => {
@@ -74,12 +101,7 @@ export const PromptEditor: React.FC<PromptEditorProps> = ({
     }
 
     // Convert prompts array to PromptItem array
-    const promptItems: PromptItem[] = prompts.map(p => ({
-      name: p.name,
-      prompt: p.prompt,
-      enabled: p.enabled,
-      skip_beforeafter_prompt: p.skip_beforeafter_prompt ?? false
-    }));
+    const promptItems: PromptItem[] = prompts.map(p => Prompt.fromJSON(p).toJSON());
 
     setItems(promptItems);
     setHasChanges(false);
@@ -94,12 +116,7 @@ export const PromptEditor: React.FC<PromptEditorProps> = ({
     console.log('[triggerSave] Saving items:', currentItems);
 
     // Convert items to prompts array
-    const promptsArray = currentItems.map(item => ({
-      name: item.name,
-      prompt: item.prompt,
-      enabled: item.enabled,
-      skip_beforeafter_prompt: item.skip_beforeafter_prompt
-    }));
+    const promptsArray = currentItems.map(item => Prompt.fromJSON(item).toJSON());
 
     console.log('[triggerSave] Final prompts to save:', promptsArray);
     onSave(promptsArray, currentBefore, currentAfter);
@@ -114,12 +131,7 @@ export const PromptEditor: React.FC<PromptEditorProps> = ({
     isLocalChange.current = true;
 
     // Convert items to prompts array
-    const promptsArray = items.map(item => ({
-      name: item.name,
-      prompt: item.prompt,
-      enabled: item.enabled,
-      skip_beforeafter_prompt: item.skip_beforeafter_prompt
-    }));
+    const promptsArray = items.map(item => Prompt.fromJSON(item).toJSON());
 
     onChange(promptsArray, beforeText, afterText);
   }, [items, beforeText, afterText, onChange]);
@@ -159,6 +171,18 @@ export const PromptEditor: React.FC<PromptEditorProps> = ({
     });
   };
 
+  // Sets reference prompts by name: once a rename is done, point them at the new name
+  const handleNameCommit = (index: number) => {
+    const from = nameAtFocus.current;
+    nameAtFocus.current = null;
+    const to = items[index]?.name ?? '';
+    if (!onSaveCombos || from === null || !from.trim() || !to.trim() || from === to) return;
+    // Another prompt still carries the old name, the sets keep meaning that one
+    if (items.some((p, i) => i !== index && p.name === from)) return;
+    if (!combos.some(c => c.prompts.includes(from))) return;
+    onSaveCombos(renamePromptInCombos(combos, from, to));
+  };
+
   const handlePromptChange = (index: number, prompt: string) => {
     recordInput();
     setItems(prev => {
@@ -196,6 +220,42 @@ export const PromptEditor: React.FC<PromptEditorProps> = ({
     });
   };
 
+  // Empty value clears the override, so the run setting applies again
+  const handleOverrideChange = <K extends keyof PromptOverrides>(index: number, key: K, value: PromptOverrides[K] | undefined) => {
+    recordInput();
+    setItems(prev => {
+      const next = [...prev];
+      next[index] = { ...next[index], [key]: value };
+      return next;
+    });
+  };
+
+  const handleVariationsChange = (index: number, value: string) => {
+    const parsed = parseInt(value, 10);
+    handleOverrideChange(index, 'variations', value === '' || isNaN(parsed) ? undefined : Math.min(MAX_VARIATIONS, Math.max(1, parsed)));
+  };
+
+  const handleTemperatureChange = (index: number, value: string) => {
+    const parsed = parseFloat(value);
+    handleOverrideChange(index, 'temperature', value === '' || isNaN(parsed) ? undefined : Math.min(2, Math.max(0, parsed)));
+  };
+
+  // Switch the enabled prompts to a saved set
+  const handleApplyCombo = (combo: Combo) => {
+    recordInput();
+    setItems(prev => applyCombo(prev, combo));
+  };
+
+  const handleSaveCombo = (name: string) => {
+    const combo: Combo = { name, prompts: items.filter(i => i.enabled && i.name.trim()).map(i => i.name) };
+    const exists = combos.some(c => c.name === name);
+    onSaveCombos?.(exists ? combos.map(c => c.name === name ? combo : c) : [...combos, combo]);
+  };
+
+  const handleDeleteCombo = (name: string) => {
+    onSaveCombos?.(combos.filter(c => c.name !== name));
+  };
+
   const handleAddPrompt = () => {
     recordInput();
     setItems(prev => {
@@ -206,6 +266,7 @@ export const PromptEditor: React.FC<PromptEditorProps> = ({
 
   const handleDeletePrompt = (index: number) => {
     recordInput();
+    setExpandedIndex(null);
     setItems(prev => {
       const next = prev.filter((_, i) => i !== index);
       return next;
@@ -236,6 +297,7 @@ export const PromptEditor: React.FC<PromptEditorProps> = ({
     }
 
     recordInput();
+    setExpandedIndex(null);
     setItems(prev => {
       const next = [...prev];
       const [draggedItem] = next.splice(draggedIndex, 1);
@@ -267,15 +329,47 @@ export const PromptEditor: React.FC<PromptEditorProps> = ({
             <Check size={14} className="text-green-400" />
           )}
         </div>
-        <button
-          onClick={handleAddPrompt}
-          className="p-1.5 text-green-400 hover:text-green-300 hover:bg-slate-700 rounded transition flex items-center gap-1 text-sm font-medium"
-        >
-          <Plus size={16} />
-          Add
-        </button>
+        <div className="flex items-center gap-1">
+          {onShowLibrary && (
+            <button
+              onClick={onShowLibrary}
+              className="p-1.5 text-slate-400 hover:text-slate-200 hover:bg-slate-700 rounded transition"
+              title="Import / export prompts"
+            >
+              <FileJson size={16} />
+            </button>
+          )}
+          {onShowHistory && (
+            <button
+              onClick={onShowHistory}
+              className="p-1.5 text-slate-400 hover:text-slate-200 hover:bg-slate-700 rounded transition"
+              title="Saved versions"
+            >
+              <History size={16} />
+            </button>
+          )}
+          <button
+            onClick={handleAddPrompt}
+            className="p-1.5 text-green-400 hover:text-green-300 hover:bg-slate-700 rounded transition flex items-center gap-1 text-sm font-medium"
+          >
+            <Plus size={16} />
+            Add
+          </button>
+        </div>
       </div>
 
+      {/* Named Prompt Sets */}
+      {onSaveCombos && (
+        <ComboBar
+          combos={combos}
+          activeName={findActiveCombo(items, combos)?.name}
+          canSave={items.some(i => i.enabled && i.name.trim())}
+          onApply={handleApplyCombo}
+          onSaveCurrent={handleSaveCombo}
+          onDelete={handleDeleteCombo}
+        />
+      )}
+
       {/* Before/After Prompt Textboxes */}
       <div className="space-y-2 mb-4">
         <div>
@@ -344,6 +438,8 @@ export const PromptEditor: React.FC<PromptEditorProps> = ({
                 type="text"
                 value={item.name}
                 onChange={(e) => handleNameChange(index, e.target.value)}
+                onFocus={() => { nameAtFocus.current = item.name; }}
+                onBlur={() => handleNameCommit(index)}
                 placeholder="Prompt name..."
                 className="flex-1 bg-slate-900 text-slate-200 text-sm px-2 py-1.5 rounded border border-slate-700 focus:border-amber-500 focus:outline-none"
               />
@@ -377,9 +473,95 @@ export const PromptEditor: React.FC<PromptEditorProps> = ({
               <label className="text-xs text-slate-400 cursor-pointer" onClick={() => handleSkipBeforeAfterChange(index, !item.skip_beforeafter_prompt)}>
                 Skip before/after text
               </label>
+
+              {/* Overrides Toggle */}
+              <button
+                onClick={() => setExpandedIndex(expandedIndex === index ? null : index)}
+                className="ml-auto flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200 transition min-w-0"
+                title="Per-prompt generation settings"
+              >
+                {describeOverrides(item) ? (
+                  <span className="text-amber-400 truncate">{describeOverrides(item)}</span>
+                ) : (
+                  <span>Overrides</span>
+                )}
+                {expandedIndex === index ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+              </button>
             </div>
+
+            {/* Overrides (empty = use run setting) */}
+            {expandedIndex === index && (
+              <div className="grid grid-cols-2 gap-2 ml-6">
+                <div>
+                  <label className="block text-[10px] text-slate-500 mb-0.5">Model</label>
+                  <select
+                    value={item.model ?? ''}
+                    onChange={(e) => handleOverrideChange(index, 'model', e.target.value || undefined)}
+                    className={selectClassName}
+                  >
+                    <option value="">Run setting</option>
+                    {MODEL_OPTIONS.map(opt => (
+                      <option key={opt.value} value={opt.value}>{opt.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-[10px] text-slate-500 mb-0.5">Aspect ratio</label>
+                  <select
+                    value={item.aspect_ratio ?? ''}
+                    onChange={(e) => handleOverrideChange(index, 'aspect_ratio', e.target.value || undefined)}
+                    className={selectClassName}
+                  >
+                    <option value="">Run setting</option>
+                    {ASPECT_RATIOS.map(ratio => (
+                      <option key={ratio} value={ratio}>{ratio}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-[10px] text-slate-500 mb-0.5">Image size</label>
+                  <select
+                    value={item.image_size ?? ''}
+                    onChange={(e) => handleOverrideChange(index, 'image_size', e.target.value || undefined)}
+                    className={selectClassName}
+                  >
+                    <option value="">Run setting</option>
+                    {IMAGE_SIZES.map(size => (
+                      <option key={size} value={size}>{size}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-[10px] text-slate-500 mb-0.5">Temperature</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={item.temperature ?? ''}
+                    onChange={(e) => handleTemperatureChange(index, e.target.value)}
+                    placeholder="Run setting"
+                    className={selectClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-[10px] text-slate-500 mb-0.5">Variations</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_VARIATIONS}
+                    value={item.variations ?? ''}
+                    onChange={(e) => handleVariationsChange(index, e.target.value)}
+                    placeholder="Run setting"
+                    className={selectClassName}
+                  />
+                </div>
+              </div>
+            )}
           </div>
         ))}
+
+        {shared}
       </div>
       
       <div className="mt-3 pt-3 border-t border-slate-800">
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { PromptData } from '../models/Prompt';
+import { PromptHistoryEntry, getPromptHistory } from '../services/firebase';
+import { DiffPart, diffWords } from '../services/textDiff';
+import { History, Loader2, RotateCcw, X } from 'lucide-react';
+
+interface PromptHistoryPanelProps {
+  email: string;
+  prompts: PromptData[];
+  promptBefore: string;
+  promptAfter: string;
+  onRestoreVersion: (entry: PromptHistoryEntry) => void;
+  onRestorePrompt: (prompt: PromptData) => void;
+  onClose: () => void;
+}
+
+type PromptStatus = 'unchanged' | 'changed' | 'only_version' | 'only_current';
+
+// Same prompt (by name) in the selected version and in the current list
+interface PromptComparison {
+  name: string;
+  version?: PromptData;
+  current?: PromptData;
+  status: PromptStatus;
+  settingsChanged: boolean;
+}
+
+const STATUS_LABELS: Record<PromptStatus, string> = {
+  unchanged: 'Unchanged',
+  changed: 'Changed',
+  only_version: 'Deleted since',
+  only_current: 'Added since',
+};
+
+// Everything but the text: enabled flag, skip flag and overrides
+const settingsOf = ({ prompt, ...settings }: PromptData): string => JSON.stringify(settings, Object.keys(settings).sort());
+
+const comparePrompts = (version: PromptData[], current: PromptData[]): PromptComparison[] => {
+  const names = Array.from(new Set([...version.map(p => p.name), ...current.map(p => p.name)]));
+  return names.map(name => {
+    const v = version.find(p => p.name === name);
+    const c = current.find(p => p.name === name);
+    const settingsChanged = !!v && !!c && settingsOf(v) !== settingsOf(c);
+    const status: PromptStatus = !c ? 'only_version' : !v ? 'only_current' : (v.prompt !== c.prompt || settingsChanged) ? 'changed' : 'unchanged';
+    return { name, version: v, current: c, status, settingsChanged };
+  });
+};
+
+const DiffText: React.FC<{ parts: DiffPart[] }> = ({ parts }) => (
+  <div className="text-xs whitespace-pre-wrap bg-slate-950 border border-slate-800 rounded p-2 text-slate-400">
+    {parts.length === 0 && <span className="italic text-slate-600">(empty)</span>}
+    {parts.map((part, i) => (
+      <span
+        key={i}
+        className={part.type === 'added' ? 'bg-green-900/50 text-green-300' : part.type === 'removed' ? 'bg-red-900/50 text-red-300 line-through' : ''}
+      >
+        {part.text}
+      </span>
+    ))}
+  </div>
+);
+
+export const PromptHistoryPanel: React.FC<PromptHistoryPanelProps> = ({ email, prompts, promptBefore, promptAfter, onRestoreVersion, onRestorePrompt, onClose }) => {
+  const [entries, setEntries] = useState<PromptHistoryEntry[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  useEffect(() => {
+    getPromptHistory(email)
+      .then(history => {
+        setEntries(history);
+        setSelectedId(history[0]?.id ?? null);
+      })
+      .catch(err => {
+        console.error("Error loading prompt history", err);
+        setError("Failed to load prompt history.");
+      })
+      .finally(() => setIsLoading(false));
+  }, [email]);
+
+  const selected = entries.find(e => e.id === selectedId);
+  const comparisons = selected ? comparePrompts(selected.prompts, prompts) : [];
+  const visible = comparisons.filter(c => showUnchanged || c.status !== 'unchanged');
+
+  const handleRestoreVersion = () => {
+    if (!selected) return;
+    if (confirm(`Restore all prompts from ${new Date(selected.savedAt).toLocaleString()}? Unsaved edits are discarded.`)) {
+      onRestoreVersion(selected);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black/90 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-lg w-full max-w-5xl h-full max-h-[90vh] flex flex-col shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-2 text-white font-bold">
+            <History size={18} /> Prompt History
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="animate-spin text-amber-500" size={32} />
+          </div>
+        ) : error || entries.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-slate-500 text-sm">
+            {error || 'No saved versions yet. A version is recorded on every save.'}
+          </div>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            {/* Versions */}
+            <div className="w-56 border-r border-slate-800 overflow-y-auto">
+              {entries.map(entry => (
+                <button
+                  key={entry.id}
+                  onClick={() => setSelectedId(entry.id)}
+                  className={`w-full text-left px-3 py-2 border-b border-slate-800/50 transition ${entry.id === selectedId ? 'bg-slate-800 text-white' : 'text-slate-400 hover:bg-slate-800/50'}`}
+                >
+                  <div className="text-xs font-mono">{new Date(entry.savedAt).toLocaleString()}</div>
+                  <div className="text-[10px] text-slate-500">{entry.prompts.length} prompt(s)</div>
+                </button>
+              ))}
+            </div>
+
+            {/* Diff against current prompts */}
+            {selected && (
+              <div className="flex-1 flex flex-col min-w-0">
+                <div className="px-4 py-2 border-b border-slate-800 flex items-center gap-4 text-xs text-slate-400">
+                  <span>
+                    Compared with current prompts: <span className="text-green-300">in this version</span>, <span className="text-red-300 line-through">current only</span>
+                  </span>
+                  <label className="flex items-center gap-1 cursor-pointer ml-auto">
+                    <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} className="accent-amber-500" />
+                    Show unchanged
+                  </label>
+                  <button
+                    onClick={handleRestoreVersion}
+                    className="flex items-center gap-1 bg-amber-600 hover:bg-amber-500 text-white px-2 py-1 rounded"
+                  >
+                    <RotateCcw size={12} /> Restore version
+                  </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                  {(selected.prompt_before ?? '') !== promptBefore && (
+                    <div>
+                      <div className="text-xs font-bold text-slate-300 mb-1">Before each prompt</div>
+                      <DiffText parts={diffWords(promptBefore, selected.prompt_before ?? '')} />
+                    </div>
+                  )}
+                  {(selected.prompt_after ?? '') !== promptAfter && (
+                    <div>
+                      <div className="text-xs font-bold text-slate-300 mb-1">After each prompt</div>
+                      <DiffText parts={diffWords(promptAfter, selected.prompt_after ?? '')} />
+                    </div>
+                  )}
+
+                  {visible.length === 0 && (
+                    <div className="text-center text-slate-500 text-sm py-8">All prompts match the current ones.</div>
+                  )}
+
+                  {visible.map(c => (
+                    <div key={c.name}>
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="text-xs font-bold text-slate-200 truncate">{c.name || '(unnamed)'}</span>
+                        <span className={`text-[10px] px-1.5 rounded ${c.status === 'unchanged' ? 'bg-slate-800 text-slate-500' : 'bg-amber-900/40 text-amber-300'}`}>
+                          {STATUS_LABELS[c.status]}
+                        </span>
+                        {c.settingsChanged && <span className="text-[10px] text-slate-500">settings differ</span>}
+                        {c.version && c.status !== 'unchanged' && (
+                          <button
+                            onClick={() => onRestorePrompt(c.version!)}
+                            className="ml-auto flex items-center gap-1 text-[10px] text-slate-400 hover:text-amber-400"
+                          >
+                            <RotateCcw size={10} /> Restore prompt
+                          </button>
+                        )}
+                      </div>
+                      <DiffText parts={diffWords(c.current?.prompt ?? '', c.version?.prompt ?? '')} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useRef, useState } from 'react';
+import { PromptData } from '../models/Prompt';
+import { Combo } from '../models/Combo';
+import {
+  PromptLibrary, ConflictStrategy, createPromptLibrary, parsePromptLibrary, findConflicts, mergePromptLibrary
+} from '../services/promptLibrary';
+import { downloadBlob } from '../services/download';
+import { AlertCircle, Download, FileJson, Upload, X } from 'lucide-react';
+
+// Prompt data the dialog reads and writes
+export interface PromptLibraryState {
+  prompts: PromptData[];
+  prompt_before: string;
+  prompt_after: string;
+  combos: Combo[];
+}
+
+interface PromptLibraryDialogProps {
+  current: PromptLibraryState;
+  onApply: (next: PromptLibraryState, summary: string) => void;
+  onClose: () => void;
+}
+
+const STRATEGY_LABELS: Record<ConflictStrategy, string> = {
+  overwrite: 'Overwrite mine',
+  skip: 'Keep mine',
+  rename: 'Import as copy',
+};
+
+export const PromptLibraryDialog: React.FC<PromptLibraryDialogProps> = ({ current, onApply, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [library, setLibrary] = useState<PromptLibrary | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+  const [strategy, setStrategy] = useState<ConflictStrategy>('skip');
+
+  const handleExport = () => {
+    const data = createPromptLibrary(current.prompts, current.prompt_before, current.prompt_after, current.combos);
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `prompts_${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      setLibrary(parsePromptLibrary(await file.text()));
+      setError(null);
+    } catch (err: any) {
+      setLibrary(null);
+      setError(err.message);
+    }
+  };
+
+  const conflicts = library ? findConflicts(current.prompts, library.prompts) : [];
+  const differing = conflicts.filter(c => !c.identical);
+
+  const handleApply = () => {
+    if (!library) return;
+    if (mode === 'replace') {
+      if (!confirm(`Replace all ${current.prompts.length} prompt(s) with the ${library.prompts.length} from ${fileName}?`)) return;
+      onApply(
+        { prompts: library.prompts, prompt_before: library.prompt_before, prompt_after: library.prompt_after, combos: library.combos },
+        `Replaced prompts with ${library.prompts.length} from ${fileName}.`
+      );
+    } else {
+      const next = mergePromptLibrary(current, library, strategy);
+      onApply(next, `Merged ${fileName}: ${next.prompts.length - current.prompts.length} prompt(s) added, ${conflicts.length} conflict(s) (${STRATEGY_LABELS[strategy].toLowerCase()}).`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black/90 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-lg w-full max-w-lg max-h-[90vh] flex flex-col shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-2 text-white font-bold">
+            <FileJson size={18} /> Prompt Library
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* Export */}
+          <div className="flex items-center justify-between gap-4">
+            <div className="text-xs text-slate-400">
+              {current.prompts.length} prompt(s), before/after text and {current.combos.length} set(s) as a JSON file.
+            </div>
+            <button
+              onClick={handleExport}
+              className="shrink-0 flex items-center gap-2 bg-slate-800 hover:bg-slate-700 text-slate-200 px-3 py-1.5 rounded border border-slate-700 text-sm"
+            >
+              <Download size={14} /> Export
+            </button>
+          </div>
+
+          {/* Import */}
+          <div className="border-t border-slate-800 pt-4 space-y-3">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full flex items-center justify-center gap-2 bg-slate-950 hover:bg-slate-900 text-slate-300 border border-dashed border-slate-600 rounded p-3 text-sm"
+            >
+              <Upload size={14} /> {fileName || 'Choose a library file to import...'}
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFileSelect} className="hidden" />
+
+            {error && (
+              <div className="flex items-start gap-2 text-xs text-red-400">
+                <AlertCircle size={14} className="shrink-0" /> {error}
+              </div>
+            )}
+
+            {library && (
+              <>
+                <div className="text-xs text-slate-400">
+                  {library.prompts.length} prompt(s), {library.combos.length} set(s)
+                  {library.exportedAt && ` · exported ${new Date(library.exportedAt).toLocaleString()}`}
+                </div>
+
+                <div className="flex gap-4 text-sm text-slate-300">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="accent-amber-500" />
+                    Merge
+                  </label>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="accent-amber-500" />
+                    Replace all
+                  </label>
+                </div>
+
+                {mode === 'merge' && conflicts.length > 0 && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs text-amber-400">{conflicts.length} name conflict(s), {differing.length} with different content</span>
+                      <select
+                        value={strategy}
+                        onChange={(e) => setStrategy(e.target.value as ConflictStrategy)}
+                        className="bg-slate-950 text-slate-200 border border-slate-700 rounded p-1 text-xs focus:border-amber-500 focus:outline-none"
+                      >
+                        {(Object.keys(STRATEGY_LABELS) as ConflictStrategy[]).map(s => (
+                          <option key={s} value={s}>{STRATEGY_LABELS[s]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="max-h-40 overflow-y-auto bg-slate-950 border border-slate-800 rounded p-2 space-y-1">
+                      {conflicts.map(c => (
+                        <div key={c.name} className="flex items-center justify-between text-xs">
+                          <span className="text-slate-300 truncate">{c.name}</span>
+                          <span className={c.identical ? 'text-slate-500' : 'text-amber-400'}>{c.identical ? 'identical' : 'differs'}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {mode === 'merge' && (
+                  <div className="text-[10px] text-slate-500">Your before/after text is kept unless it is empty. Sets with new names are added.</div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="p-3 border-t border-slate-800 flex justify-end">
+          <button
+            onClick={handleApply}
+            disabled={!library}
+            className="px-4 py-1.5 rounded font-bold text-sm transition bg-green-600 hover:bg-green-500 text-white disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProcessingResult } from '../types';
+import { describeSources } from './ResultCard';
+import { AlertCircle, Download, Loader2, Send, X } from 'lucide-react';
+
+interface RefinePanelProps {
+  result: ProcessingResult;
+  onRefine: (result: ProcessingResult, instruction: string) => void;
+  onDownload: (result: ProcessingResult, versionIndex?: number) => void;
+  onClose: () => void;
+}
+
+export const RefinePanel: React.FC<RefinePanelProps> = ({ result, onRefine, onDownload, onClose }) => {
+  const [instruction, setInstruction] = useState('');
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const versions = result.versions || [];
+  const isRefining = versions.some(v => v.status === 'processing');
+
+  // Keep the newest version in view
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [versions.length, isRefining]);
+
+  const handleSubmit = () => {
+    const text = instruction.trim();
+    if (!text || isRefining) return;
+    onRefine(result, text);
+    setInstruction('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black/90 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-lg w-full max-w-2xl h-full max-h-[90vh] flex flex-col shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-slate-800 flex items-center justify-between">
+          <div className="min-w-0">
+            <div className="text-white font-bold truncate">Refine: {result.promptName}</div>
+            <div className="text-xs text-slate-500 truncate">{describeSources(result)} · {versions.length} version(s)</div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Thread */}
+        <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* Seed: original prompt, references and output */}
+          <div className="ml-auto max-w-[85%] bg-slate-800 rounded-lg p-3">
+            <div className="text-xs text-slate-200 whitespace-pre-wrap">{result.promptText}</div>
+            {result.files.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {result.files.map(file => (
+                  <span key={file.name} className="text-[10px] bg-slate-700 text-slate-300 px-1.5 py-0.5 rounded">{file.name}</span>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="max-w-[85%]">
+            <img src={result.imageUrl} alt="Original" className="max-h-64 rounded-lg border border-slate-700" />
+            <div className="flex items-center gap-3 mt-1 text-[10px] text-slate-500 font-mono">
+              <span>Original</span>
+              {result.cost !== undefined && <span>${result.cost.toFixed(4)}</span>}
+              <button onClick={() => onDownload(result)} className="hover:text-slate-300 flex items-center gap-1">
+                <Download size={10} /> Download
+              </button>
+            </div>
+          </div>
+
+          {/* Refinements */}
+          {versions.map((version, index) => (
+            <React.Fragment key={version.id}>
+              <div className="ml-auto max-w-[85%] bg-slate-800 rounded-lg p-3 text-xs text-slate-200 whitespace-pre-wrap">
+                {version.instruction}
+              </div>
+              <div className="max-w-[85%]">
+                {version.status === 'processing' && (
+                  <div className="flex items-center gap-2 text-slate-400 text-xs">
+                    <Loader2 className="animate-spin text-amber-500" size={16} /> Generating...
+                  </div>
+                )}
+                {version.status === 'failed' && (
+                  <div className="flex items-start gap-2 text-red-400 text-xs">
+                    <AlertCircle size={16} className="shrink-0" /> {version.error}
+                  </div>
+                )}
+                {version.status === 'completed' && version.imageUrl && (
+                  <>
+                    <img src={version.imageUrl} alt={`Version ${index + 1}`} className="max-h-64 rounded-lg border border-slate-700" />
+                    <div className="flex items-center gap-3 mt-1 text-[10px] text-slate-500 font-mono">
+                      <span>v{index + 1}</span>
+                      {version.usage && <span>{version.usage.total.toLocaleString()} tokens</span>}
+                      {version.cost !== undefined && <span>${version.cost.toFixed(4)}</span>}
+                      <button onClick={() => onDownload(result, index)} className="hover:text-slate-300 flex items-center gap-1">
+                        <Download size={10} /> Download
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            </React.Fragment>
+          ))}
+        </div>
+
+        {/* Instruction Input */}
+        <div className="p-3 border-t border-slate-800 flex gap-2">
+          <textarea
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Follow-up instruction, e.g. make the bag red..."
+            rows={2}
+            className="flex-1 bg-slate-950 text-slate-200 text-sm px-3 py-2 rounded border border-slate-700 focus:border-amber-500 focus:outline-none resize-none"
+          />
+          <button
+            onClick={handleSubmit}
+            disabled={!instruction.trim() || isRefining}
+            className="px-4 rounded font-bold flex items-center gap-2 transition bg-green-600 hover:bg-green-500 text-white disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed"
+          >
+            {isRefining ? <Loader2 className="animate-spin" size={18} /> : <Send size={18} />}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { ProcessingResult } from '../types';
+import { AlertCircle, Ban, Loader2 } from 'lucide-react';
+
+// Label for the reference file(s) a result was generated from
+export const describeSources = (res: ProcessingResult): string => {
+  if (res.files.length === 0) return 'Text only';
+  return `${res.originalFileName}${res.files.length > 1 ? ` +${res.files.length - 1}` : ''}`;
+};
+
+interface ResultCardProps {
+  result: ProcessingResult;
+  onView: (result: ProcessingResult) => void;
+}
+
+export const ResultCard: React.FC<ResultCardProps> = ({ result: res, onView }) => {
+  return (
+    <div className="bg-slate-950 border border-slate-800 rounded-lg overflow-hidden flex flex-col group">
+      <div className="aspect-square bg-slate-900 relative flex items-center justify-center">
+        {res.status === 'processing' && <Loader2 className="animate-spin text-amber-500" size={32} />}
+        {res.status === 'pending' && <span className="text-slate-700 text-xs">Waiting...</span>}
+        {res.status === 'failed' && <AlertCircle className="text-red-500" size={32} />}
+        {res.status === 'cancelled' && <Ban className="text-slate-600" size={32} />}
+        {res.status === 'completed' && res.imageUrl && (
+          <img
+            src={res.imageUrl}
+            alt="Generated"
+            className="w-full h-full object-cover cursor-pointer"
+            onClick={() => onView(res)}
+          />
+        )}
+
+        {/* Overlay Actions (desktop hover) */}
+        {res.status === 'completed' && (
+          <div
+            className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition flex items-center justify-center cursor-pointer"
+            onClick={() => onView(res)}
+          >
+            <span className="text-white text-xs">Tap to view</span>
+          </div>
+        )}
+
+        {/* Refinement Badge */}
+        {res.versions && res.versions.length > 0 && (
+          <span className="absolute top-2 right-2 bg-amber-600/90 text-white text-[10px] font-mono px-1.5 py-0.5 rounded">
+            {res.versions.length} refined
+          </span>
+        )}
+
+        {/* Variation Badge */}
+        {res.variationCount > 1 && (
+          <span className="absolute top-2 left-2 bg-black/70 text-slate-200 text-[10px] font-mono px-1.5 py-0.5 rounded">
+            #{res.variationIndex}
+          </span>
+        )}
+      </div>
+      <div className="p-3 border-t border-slate-800">
+        <div className="text-xs text-slate-400 truncate" title={res.files.map(f => f.name).join(', ')}>
+          {describeSources(res)}
+        </div>
+        <div className="text-xs font-bold text-slate-200 mt-1 truncate" title={res.promptName}>{res.promptName}</div>
+        {res.comboName && <div className="text-[10px] text-amber-400/80 truncate" title="Prompt set">{res.comboName}</div>}
+        {res.error && <div className="text-[10px] text-red-400 mt-1 leading-tight">{res.error}</div>}
+        {res.status === 'failed' && res.diagnostics && (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {res.diagnostics.finishReason && (
+              <span className="text-[9px] font-mono bg-slate-800 text-slate-400 px-1 rounded">{res.diagnostics.finishReason}</span>
+            )}
+            {res.diagnostics.blockReason && (
+              <span className="text-[9px] font-mono bg-red-900/40 text-red-300 px-1 rounded">{res.diagnostics.blockReason}</span>
+            )}
+            {(res.diagnostics.safetyRatings || []).filter(r => r.blocked).map(r => (
+              <span key={r.category} className="text-[9px] font-mono bg-red-900/40 text-red-300 px-1 rounded">{r.category.replace('HARM_CATEGORY_', '')}</span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
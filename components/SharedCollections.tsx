@@ -0,0 +1,262 @@
+import React, { useState } from 'react';
+import { PromptData } from '../models/Prompt';
+import {
+  PromptCollection, sharedPromptKey, hasEmail, listPromptCollections, createPromptCollection, updatePromptCollection
+} from '../services/firebase';
+import { ChevronDown, ChevronRight, GitFork, Loader2, Lock, Pencil, Plus, Trash2, Users, X } from 'lucide-react';
+
+interface SharedCollectionsProps {
+  email: string;
+  collections: PromptCollection[];      // Subscribed collections (live)
+  subscribedIds: string[];
+  onSubscriptionsChange: (ids: string[]) => void;
+  enabledKeys: string[];
+  onToggleEnabled: (key: string, enabled: boolean) => void;
+  onFork: (prompt: PromptData) => void;
+  personalPrompts: PromptData[];        // Editors can add copies of these to a collection
+  onLog: (message: string, type: 'info' | 'success' | 'warning' | 'error') => void;
+}
+
+export const SharedCollections: React.FC<SharedCollectionsProps> = ({
+  email,
+  collections,
+  subscribedIds,
+  onSubscriptionsChange,
+  enabledKeys,
+  onToggleEnabled,
+  onFork,
+  personalPrompts,
+  onLog
+}) => {
+  const [isBrowsing, setIsBrowsing] = useState(false);
+  const [available, setAvailable] = useState<PromptCollection[] | null>(null);
+  const [newName, setNewName] = useState('');
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+  const [editing, setEditing] = useState<{ collectionId: string; name: string; text: string } | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const loadAvailable = async () => {
+    try {
+      setAvailable(await listPromptCollections());
+    } catch (error) {
+      console.error("Error listing prompt collections", error);
+      onLog("Failed to load shared collections.", "error");
+      setAvailable([]);
+    }
+  };
+
+  const handleBrowse = () => {
+    if (!isBrowsing) loadAvailable();
+    setIsBrowsing(!isBrowsing);
+  };
+
+  const toggleSubscription = (id: string, subscribe: boolean) => {
+    onSubscriptionsChange(subscribe ? [...subscribedIds, id] : subscribedIds.filter(s => s !== id));
+  };
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    try {
+      const id = await createPromptCollection(name, email);
+      setNewName('');
+      onSubscriptionsChange([...subscribedIds, id]);
+      onLog(`Created shared collection "${name}".`, "success");
+      loadAvailable();
+    } catch (error) {
+      console.error("Error creating prompt collection", error);
+      onLog("Failed to create shared collection.", "error");
+    }
+  };
+
+  // Editors only: write the new prompt list of a collection
+  const saveCollection = async (collection: PromptCollection, prompts: PromptData[], message: string) => {
+    setSavingId(collection.id);
+    try {
+      await updatePromptCollection(collection.id, prompts, email);
+      onLog(message, "success");
+    } catch (error) {
+      console.error("Error updating prompt collection", error);
+      onLog(`Failed to update "${collection.name}". Only its editors can change it.`, "error");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleSaveEdit = (collection: PromptCollection) => {
+    if (!editing) return;
+    const prompts = collection.prompts.map(p => p.name === editing.name ? { ...p, prompt: editing.text } : p);
+    setEditing(null);
+    saveCollection(collection, prompts, `Updated "${editing.name}" in "${collection.name}".`);
+  };
+
+  const handleRemovePrompt = (collection: PromptCollection, name: string) => {
+    if (!confirm(`Remove "${name}" from "${collection.name}" for everyone?`)) return;
+    saveCollection(collection, collection.prompts.filter(p => p.name !== name), `Removed "${name}" from "${collection.name}".`);
+  };
+
+  const handleAddPersonal = (collection: PromptCollection, name: string) => {
+    const prompt = personalPrompts.find(p => p.name === name);
+    if (!prompt) return;
+    if (collection.prompts.some(p => p.name === name)) {
+      onLog(`"${collection.name}" already has a prompt named "${name}".`, "warning");
+      return;
+    }
+    saveCollection(collection, [...collection.prompts, { ...prompt, enabled: false }], `Shared "${name}" in "${collection.name}".`);
+  };
+
+  return (
+    <div className="mt-4 pt-3 border-t border-slate-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-slate-300 text-sm font-semibold">
+          <Users size={14} /> Shared
+        </div>
+        <button onClick={handleBrowse} className="text-xs text-slate-400 hover:text-slate-200 flex items-center gap-1">
+          {isBrowsing ? <X size={12} /> : <Plus size={12} />} {isBrowsing ? 'Done' : 'Browse'}
+        </button>
+      </div>
+
+      {/* Subscribe / create */}
+      {isBrowsing && (
+        <div className="bg-slate-800 border border-slate-700 rounded p-2 space-y-2">
+          {available === null ? (
+            <Loader2 size={14} className="animate-spin text-amber-400" />
+          ) : available.length === 0 ? (
+            <div className="text-xs text-slate-500">No shared collections yet.</div>
+          ) : (
+            available.map(c => (
+              <label key={c.id} className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={subscribedIds.includes(c.id)}
+                  onChange={(e) => toggleSubscription(c.id, e.target.checked)}
+                  className="w-3 h-3 accent-amber-500"
+                />
+                <span className="truncate">{c.name}</span>
+                <span className="ml-auto text-slate-500">{c.prompts?.length ?? 0}</span>
+              </label>
+            ))
+          )}
+          <div className="flex gap-1 pt-1 border-t border-slate-700">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder="New collection name..."
+              className="flex-1 bg-slate-950 text-slate-200 text-xs px-2 py-1 rounded border border-slate-700 focus:border-amber-500 focus:outline-none"
+            />
+            <button onClick={handleCreate} disabled={!newName.trim()} className="text-xs text-green-400 hover:text-green-300 disabled:text-slate-600 px-1">
+              Create
+            </button>
+          </div>
+        </div>
+      )}
+
+      {collections.length === 0 && !isBrowsing && (
+        <p className="text-xs text-slate-500">Subscribe to a team collection to use its prompts.</p>
+      )}
+
+      {collections.map(collection => {
+        const isEditor = hasEmail(collection.editors || [], email);
+        const isCollapsed = collapsed.includes(collection.id);
+        return (
+          <div key={collection.id} className="border border-slate-800 rounded-lg">
+            <div className="flex items-center gap-2 px-2 py-1.5 bg-slate-900 rounded-t-lg">
+              <button
+                onClick={() => setCollapsed(isCollapsed ? collapsed.filter(id => id !== collection.id) : [...collapsed, collection.id])}
+                className="text-slate-500 hover:text-slate-300"
+              >
+                {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+              </button>
+              <span className="text-xs font-semibold text-slate-200 truncate">{collection.name}</span>
+              {isEditor ? (
+                <span className="text-[10px] text-green-400">editor</span>
+              ) : (
+                <span className="text-[10px] text-slate-500 flex items-center gap-0.5"><Lock size={10} /> read-only</span>
+              )}
+              {savingId === collection.id && <Loader2 size={12} className="animate-spin text-amber-400" />}
+              <button
+                onClick={() => toggleSubscription(collection.id, false)}
+                className="ml-auto text-slate-500 hover:text-red-400"
+                title="Unsubscribe"
+              >
+                <X size={12} />
+              </button>
+            </div>
+
+            {!isCollapsed && (
+              <div className="p-2 space-y-2">
+                {collection.prompts.length === 0 && <div className="text-xs text-slate-500">No prompts in this collection.</div>}
+                {collection.prompts.map(prompt => {
+                  const key = sharedPromptKey(collection.id, prompt.name);
+                  const isEditing = editing?.collectionId === collection.id && editing.name === prompt.name;
+                  return (
+                    <div key={prompt.name} className="bg-slate-950 border border-slate-800 border-l-2 border-l-sky-700 rounded p-2 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={enabledKeys.includes(key)}
+                          onChange={(e) => onToggleEnabled(key, e.target.checked)}
+                          className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-amber-500 focus:ring-amber-500 focus:ring-offset-0 cursor-pointer"
+                        />
+                        <span className="flex-1 text-sm text-slate-200 truncate">{prompt.name}</span>
+                        <span className="text-[9px] uppercase tracking-wide bg-sky-900/50 text-sky-300 px-1 rounded">Shared</span>
+                        <button onClick={() => onFork(prompt)} className="p-0.5 text-slate-500 hover:text-amber-400" title="Copy into my prompts">
+                          <GitFork size={12} />
+                        </button>
+                        {isEditor && (
+                          <>
+                            <button
+                              onClick={() => setEditing(isEditing ? null : { collectionId: collection.id, name: prompt.name, text: prompt.prompt })}
+                              className="p-0.5 text-slate-500 hover:text-slate-200"
+                              title="Edit for everyone"
+                            >
+                              <Pencil size={12} />
+                            </button>
+                            <button onClick={() => handleRemovePrompt(collection, prompt.name)} className="p-0.5 text-slate-500 hover:text-red-400" title="Remove from collection">
+                              <Trash2 size={12} />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                      {isEditing ? (
+                        <>
+                          <textarea
+                            value={editing.text}
+                            onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+                            rows={3}
+                            className="w-full bg-slate-900 text-slate-300 text-xs px-2 py-1.5 rounded border border-amber-700 focus:border-amber-500 focus:outline-none resize-none"
+                          />
+                          <div className="flex justify-end gap-2 text-xs">
+                            <button onClick={() => setEditing(null)} className="text-slate-400 hover:text-slate-200">Cancel</button>
+                            <button onClick={() => handleSaveEdit(collection)} className="text-green-400 hover:text-green-300">Save for everyone</button>
+                          </div>
+                        </>
+                      ) : (
+                        <p className="text-xs text-slate-400 whitespace-pre-wrap line-clamp-3">{prompt.prompt}</p>
+                      )}
+                    </div>
+                  );
+                })}
+
+                {isEditor && personalPrompts.some(p => p.name.trim()) && (
+                  <select
+                    value=""
+                    onChange={(e) => handleAddPersonal(collection, e.target.value)}
+                    className="w-full bg-slate-900 text-slate-400 text-xs px-1.5 py-1 rounded border border-dashed border-slate-700 focus:border-amber-500 focus:outline-none"
+                  >
+                    <option value="">+ Share one of my prompts...</option>
+                    {personalPrompts.filter(p => p.name.trim()).map(p => (
+                      <option key={p.name} value={p.name}>{p.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { UsageLedgerEntry, getUsageLedger } from '../services/firebase';
+import { ReportGrouping, groupUsage, ledgerToCsv, reportToCsv } from '../services/usageReport';
+import { getModelOptions } from '../services/providers';
+import { downloadBlob } from '../services/download';
+import { ChartColumn, Download, Loader2, X } from 'lucide-react';
+
+const MODEL_OPTIONS = getModelOptions();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ReportRange = '30d' | '90d' | '365d' | 'all';
+
+const RANGES: Array<{ value: ReportRange; label: string; days: number }> = [
+  { value: '30d', label: 'Last 30 days', days: 30 },
+  { value: '90d', label: 'Last 90 days', days: 90 },
+  { value: '365d', label: 'Last 12 months', days: 365 },
+  { value: 'all', label: 'All time', days: 0 },
+];
+
+const GROUPINGS: Array<{ value: ReportGrouping; label: string }> = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'model', label: 'Model' },
+  { value: 'prompt', label: 'Prompt' },
+];
+
+const modelLabel = (model: string) => MODEL_OPTIONS.find(m => m.value === model)?.label || model;
+
+interface UsageReportsProps {
+  email: string;
+  onClose: () => void;
+  onLog: (message: string, type: 'info' | 'success' | 'warning' | 'error') => void;
+}
+
+export const UsageReports: React.FC<UsageReportsProps> = ({ email, onClose, onLog }) => {
+  const [range, setRange] = useState<ReportRange>('30d');
+  const [grouping, setGrouping] = useState<ReportGrouping>('day');
+  const [entries, setEntries] = useState<UsageLedgerEntry[] | null>(null);
+
+  useEffect(() => {
+    setEntries(null);
+    const days = RANGES.find(r => r.value === range)!.days;
+    const since = days > 0 ? new Date().setHours(0, 0, 0, 0) - (days - 1) * DAY_MS : 0;
+    getUsageLedger(email, since)
+      .then(setEntries)
+      .catch(error => {
+        console.error("Error loading usage ledger", error);
+        onLog("Failed to load usage reports.", "error");
+        setEntries([]);
+      });
+  }, [email, range]);
+
+  const rows = useMemo(() => groupUsage(entries || [], grouping, modelLabel), [entries, grouping]);
+  const totalCost = rows.reduce((sum, r) => sum + r.cost, 0);
+  const maxCost = Math.max(0, ...rows.map(r => r.cost));
+
+  const stamp = () => new Date().toISOString().slice(0, 10);
+
+  const handleExportEntries = () => {
+    if (!entries) return;
+    downloadBlob(new Blob([ledgerToCsv(entries)], { type: 'text/csv' }), `usage_${range}_${stamp()}.csv`);
+  };
+
+  const handleExportReport = () => {
+    downloadBlob(new Blob([reportToCsv(rows, grouping)], { type: 'text/csv' }), `usage_by_${grouping}_${range}_${stamp()}.csv`);
+  };
+
+  const selectClassName = "bg-slate-950 text-slate-200 border border-slate-700 rounded p-1.5 text-sm focus:border-amber-500 focus:outline-none";
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black/90 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-lg w-full max-w-3xl max-h-[90vh] flex flex-col shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-2 text-white font-bold">
+            <ChartColumn size={18} /> Usage Reports
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="px-4 py-3 border-b border-slate-800 flex flex-wrap items-center gap-3">
+          <select value={range} onChange={(e) => setRange(e.target.value as ReportRange)} className={selectClassName}>
+            {RANGES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+          </select>
+          <div className="flex rounded border border-slate-700 overflow-hidden text-sm">
+            {GROUPINGS.map(g => (
+              <button
+                key={g.value}
+                onClick={() => setGrouping(g.value)}
+                className={`px-3 py-1.5 ${grouping === g.value ? 'bg-amber-600 text-white' : 'bg-slate-950 text-slate-400 hover:text-slate-200'}`}
+              >
+                {g.label}
+              </button>
+            ))}
+          </div>
+          <div className="ml-auto flex gap-2">
+            <button
+              onClick={handleExportReport}
+              disabled={rows.length === 0}
+              className="flex items-center gap-1 bg-slate-800 hover:bg-slate-700 text-slate-200 px-3 py-1.5 rounded border border-slate-700 text-sm disabled:opacity-50"
+              title="This table as CSV"
+            >
+              <Download size={14} /> Summary
+            </button>
+            <button
+              onClick={handleExportEntries}
+              disabled={!entries || entries.length === 0}
+              className="flex items-center gap-1 bg-slate-800 hover:bg-slate-700 text-slate-200 px-3 py-1.5 rounded border border-slate-700 text-sm disabled:opacity-50"
+              title="Every generation in the range as CSV"
+            >
+              <Download size={14} /> Entries
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {entries === null ? (
+            <div className="flex justify-center py-8"><Loader2 className="animate-spin text-amber-400" /></div>
+          ) : rows.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-8">No generations recorded in this range.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-500 uppercase text-left">
+                  <th className="py-1 font-semibold">{GROUPINGS.find(g => g.value === grouping)!.label}</th>
+                  <th className="py-1 font-semibold w-1/3"></th>
+                  <th className="py-1 font-semibold text-right">Images</th>
+                  <th className="py-1 font-semibold text-right">Tokens</th>
+                  <th className="py-1 font-semibold text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.key} className="border-t border-slate-800">
+                    <td className="py-1.5 pr-2 text-slate-200 truncate max-w-[14rem]">{row.label}</td>
+                    <td className="py-1.5 pr-2">
+                      <div className="h-2 rounded bg-amber-600/70" style={{ width: `${maxCost > 0 ? (row.cost / maxCost) * 100 : 0}%` }} />
+                    </td>
+                    <td className="py-1.5 text-right text-slate-400 font-mono">{row.images}</td>
+                    <td className="py-1.5 text-right text-slate-400 font-mono">{row.tokens.toLocaleString()}</td>
+                    <td className="py-1.5 text-right text-green-400 font-mono">${row.cost.toFixed(4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="border-t border-slate-700 font-semibold">
+                  <td className="py-1.5 text-slate-300" colSpan={2}>Total</td>
+                  <td className="py-1.5 text-right text-slate-300 font-mono">{rows.reduce((sum, r) => sum + r.images, 0)}</td>
+                  <td className="py-1.5 text-right text-slate-300 font-mono">{rows.reduce((sum, r) => sum + r.tokens, 0).toLocaleString()}</td>
+                  <td className="py-1.5 text-right text-green-400 font-mono">${totalCost.toFixed(4)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
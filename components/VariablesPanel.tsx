@@ -0,0 +1,141 @@
+import React, { useRef, useState } from 'react';
+import { BUILTIN_VARIABLES, UnresolvedVariables } from '../services/promptTemplate';
+import { Braces, FileSpreadsheet, X } from 'lucide-react';
+
+// Editable variable settings, persisted between sessions
+export interface VariableSettings {
+  values: string;          // "name=value" lines applied to every task
+  filenamePattern: string; // e.g. "{product}_{color}"
+}
+
+// Sidecar table loaded for the current session
+export interface VariableTable {
+  name: string;
+  rows: Record<string, Record<string, string>>;
+}
+
+interface VariablesPanelProps {
+  variables: string[];            // Placeholders used by the enabled prompts
+  settings: VariableSettings;
+  onChange: (settings: VariableSettings) => void;
+  table: VariableTable | null;
+  onLoadTable: (file: File) => void;
+  onClearTable: () => void;
+  unresolved: UnresolvedVariables[];
+  disabled?: boolean;
+}
+
+const MAX_LISTED = 8;
+
+export const VariablesPanel: React.FC<VariablesPanelProps> = ({ variables, settings, onChange, table, onLoadTable, onClearTable, unresolved, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<VariableSettings>) => onChange({ ...settings, ...patch });
+
+  const handleTableSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onLoadTable(file);
+  };
+
+  const missingNames = Array.from(new Set(unresolved.flatMap(u => u.missing)));
+  const summary = variables.length === 0
+    ? 'None'
+    : missingNames.length > 0 ? `${missingNames.length} missing` : `${variables.length} set`;
+
+  return (
+    <div className="relative w-32">
+      <label className="block text-xs font-mono text-slate-500 mb-2 uppercase">Variables</label>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`w-full bg-slate-950 border rounded p-2.5 flex items-center justify-between gap-2 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed ${missingNames.length > 0
+          ? 'text-red-400 border-red-700 focus:border-red-500'
+          : 'text-slate-200 border-slate-700 focus:border-amber-500'
+          }`}
+        title="Values for {{variable}} placeholders in prompts"
+      >
+        <span className="truncate text-sm">{summary}</span>
+        <Braces size={14} className="text-slate-500 shrink-0" />
+      </button>
+
+      {isOpen && !disabled && (
+        <div className="absolute top-full left-0 mt-2 w-80 bg-slate-800 border border-slate-700 rounded p-3 shadow-xl z-50 space-y-3">
+          <div className="text-xs text-slate-400">
+            {variables.length > 0 ? (
+              <div className="flex flex-wrap gap-1">
+                {variables.map(name => (
+                  <span
+                    key={name}
+                    className={`font-mono px-1.5 py-0.5 rounded ${missingNames.includes(name) ? 'bg-red-900/50 text-red-300' : 'bg-slate-700 text-slate-300'}`}
+                  >
+                    {`{{${name}}}`}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <span>Enabled prompts use no {'{{variables}}'}.</span>
+            )}
+            <div className="mt-1 text-[10px] text-slate-500">Built in: {BUILTIN_VARIABLES.map(name => `{{${name}}}`).join(', ')} (reference file name)</div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Run values (name=value per line)</label>
+            <textarea
+              value={settings.values}
+              onChange={(e) => update({ values: e.target.value })}
+              rows={3}
+              placeholder={'brand=Acme\nseason=Summer'}
+              className="w-full bg-slate-950 text-slate-200 border border-slate-700 rounded p-1.5 text-xs font-mono focus:border-amber-500 focus:outline-none resize-y"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">File name pattern</label>
+            <input
+              type="text"
+              value={settings.filenamePattern}
+              onChange={(e) => update({ filenamePattern: e.target.value })}
+              placeholder="{product}_{color}"
+              className="w-full bg-slate-950 text-slate-200 border border-slate-700 rounded p-1.5 text-xs font-mono focus:border-amber-500 focus:outline-none"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Per-file table (CSV with a "file" column)</label>
+            {table ? (
+              <div className="flex items-center justify-between gap-2 bg-slate-950 border border-slate-700 rounded p-1.5 text-xs text-slate-300">
+                <span className="flex items-center gap-1 truncate">
+                  <FileSpreadsheet size={12} className="shrink-0" /> {table.name} ({Object.keys(table.rows).length} rows)
+                </span>
+                <button onClick={onClearTable} className="text-slate-500 hover:text-red-400" title="Remove table">
+                  <X size={12} />
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full flex items-center justify-center gap-1 bg-slate-950 hover:bg-slate-900 text-slate-300 border border-dashed border-slate-600 rounded p-1.5 text-xs"
+              >
+                <FileSpreadsheet size={12} /> Load CSV...
+              </button>
+            )}
+            <input ref={fileInputRef} type="file" accept=".csv,.tsv,text/csv" onChange={handleTableSelect} className="hidden" />
+          </div>
+
+          {unresolved.length > 0 && (
+            <div className="border-t border-slate-700 pt-2 text-[11px] text-red-300 space-y-0.5">
+              {unresolved.slice(0, MAX_LISTED).map((u, i) => (
+                <div key={i} className="truncate">
+                  {u.promptName}{u.fileName ? ` / ${u.fileName}` : ''}: {u.missing.join(', ')}
+                </div>
+              ))}
+              {unresolved.length > MAX_LISTED && <div className="text-slate-500">+{unresolved.length - MAX_LISTED} more</div>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
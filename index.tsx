@@ -2,15 +2,16 @@ import React, { useEffect, useState } from 'react';
 import ReactDOM from 'react-dom/client';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { onAuthStateChanged, User } from 'firebase/auth';
-import { auth, getAccessList } from './services/firebase';
+import { auth, getAccessConfig, hasEmail, AccessConfig } from './services/firebase';
 import App from './App';
 import { LoginPage } from './components/LoginPage';
 import { AccessDeniedPage } from './components/AccessDeniedPage';
+import { AdminPage } from './components/AdminPage';
 
 const AuthWrapper: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
   const [authLoading, setAuthLoading] = useState(true);
-  const [accessList, setAccessList] = useState<string[]>([]);
+  const [access, setAccess] = useState<AccessConfig>({ allowedEmails: [], adminEmails: [] });
   const [accessListLoading, setAccessListLoading] = useState(true); // Start true to prevent flash
 
   // Listen for auth state changes
@@ -35,10 +36,9 @@ const AuthWrapper: React.FC = () => {
   useEffect(() => {
     if (user) {
       setAccessListLoading(true);
-      getAccessList()
-        .then((list) => {
-          
-          setAccessList(list);
+      getAccessConfig()
+        .then((config) => {
+          setAccess(config);
         })
         .catch((error) => {
           console.error("Failed to fetch access list", error);
@@ -58,7 +58,8 @@ const AuthWrapper: React.FC = () => {
     );
   }
 
-  const isAuthorized = user && accessList.includes(user.email || '');
+  const isAuthorized = user && hasEmail(access.allowedEmails, user.email);
+  const isAdmin = !!isAuthorized && hasEmail(access.adminEmails, user.email);
 
   return (
     <Routes>
@@ -78,10 +79,25 @@ const AuthWrapper: React.FC = () => {
           ) : !isAuthorized ? (
             <Navigate to="/access-denied" replace />
           ) : (
-            <App />
+            <App isAdmin={isAdmin} />
           )
         } 
       />
+      <Route
+        path="/admin"
+        element={
+          !user ? (
+            <Navigate to="/login" replace />
+          ) : !isAdmin ? (
+            <Navigate to="/" replace />
+          ) : (
+            <AdminPage
+              allowedEmails={access.allowedEmails}
+              onAllowedEmailsChange={(allowedEmails) => setAccess(prev => ({ ...prev, allowedEmails }))}
+            />
+          )
+        }
+      />
     </Routes>
   );
 };
@@ -0,0 +1,36 @@
+import { PromptData } from "./Prompt";
+
+// Named set of prompts enabled together, e.g. "beach shoot" (stored in UserDocument.combos)
+export interface Combo {
+  name: string;
+  prompts: string[]; // Prompt names
+}
+
+/**
+ * Enable exactly the prompts of a combo
+ */
+export const applyCombo = <T extends PromptData>(prompts: T[], combo: Combo): T[] => {
+  return prompts.map(p => ({ ...p, enabled: combo.prompts.includes(p.name) }));
+};
+
+/**
+ * Combo whose prompts are exactly the enabled ones (names no longer in the list are ignored)
+ */
+export const findActiveCombo = (prompts: PromptData[], combos: Combo[] = []): Combo | undefined => {
+  const enabled = prompts.filter(p => p.enabled && p.name.trim()).map(p => p.name);
+  if (enabled.length === 0) return undefined;
+  const existing = new Set(prompts.map(p => p.name));
+  return combos.find(combo => {
+    const names = combo.prompts.filter(name => existing.has(name));
+    return names.length === enabled.length && names.every(name => enabled.includes(name));
+  });
+};
+
+/**
+ * Combos following a renamed prompt, so it stays in every set it belonged to
+ */
+export const renamePromptInCombos = (combos: Combo[], from: string, to: string): Combo[] => {
+  return combos.map(combo => combo.prompts.includes(from)
+    ? { ...combo, prompts: Array.from(new Set(combo.prompts.map(name => name === from ? to : name))) }
+    : combo);
+};
@@ -1,29 +1,99 @@
+export const MAX_VARIATIONS = 8;
+
+// Per-prompt generation settings, each one overrides the run setting when set
+export interface PromptOverrides {
+  variations?: number;
+  aspect_ratio?: string;
+  image_size?: string;
+  model?: string;
+  temperature?: number;
+}
+
+const OVERRIDE_KEYS: Array<keyof PromptOverrides> = ['variations', 'aspect_ratio', 'image_size', 'model', 'temperature'];
+
+const overrideType = (key: keyof PromptOverrides): 'number' | 'string' =>
+  key === 'variations' || key === 'temperature' ? 'number' : 'string';
+
+// Copy one override, keeping the key and value types tied together
+const setOverride = <K extends keyof PromptOverrides>(target: PromptOverrides, key: K, value: PromptOverrides[K]): void => {
+  target[key] = value;
+};
+
+// Plain prompt shape as stored in Firestore (UserDocument.prompts)
+export interface PromptData extends PromptOverrides {
+  name: string;
+  prompt: string;
+  enabled: boolean;
+  skip_beforeafter_prompt: boolean;
+}
+
 export class Prompt {
   name: string;
   prompt: string;
   enabled: boolean;
   skip_beforeafter_prompt: boolean;
+  overrides: PromptOverrides;
 
-  constructor(name: string = '', prompt: string = '', enabled: boolean = false, skip_beforeafter_prompt: boolean = false) {
+  constructor(name: string = '', prompt: string = '', enabled: boolean = false, skip_beforeafter_prompt: boolean = false, overrides: PromptOverrides = {}) {
     this.name = name;
     this.prompt = prompt;
     this.enabled = enabled;
     this.skip_beforeafter_prompt = skip_beforeafter_prompt;
+    this.overrides = overrides;
   }
 
-  // Convert to plain object for Firestore
-  toJSON(): { name: string; prompt: string; enabled: boolean; skip_beforeafter_prompt: boolean } {
-    return {
+  // Convert to plain object for Firestore (unset overrides are omitted, Firestore rejects undefined)
+  toJSON(): PromptData {
+    const data: PromptData = {
       name: this.name,
       prompt: this.prompt,
       enabled: this.enabled,
       skip_beforeafter_prompt: this.skip_beforeafter_prompt
     };
+    OVERRIDE_KEYS.forEach(key => {
+      const value = this.overrides[key];
+      if (value !== undefined && value !== null && value !== '') {
+        setOverride(data, key, value);
+      }
+    });
+    return data;
   }
 
-  // Create from plain object
-  static fromJSON(data: { name: string; prompt: string; enabled: boolean; skip_beforeafter_prompt?: boolean }): Prompt {
-    return new Prompt(data.name, data.prompt, data.enabled, data.skip_beforeafter_prompt ?? false);
+  // Create from plain object (e.g. Firestore). Tolerates legacy or hand-edited data:
+  // missing text becomes empty and overrides of the wrong type are dropped.
+  static fromJSON(data: { name: string; prompt: string; enabled: boolean; skip_beforeafter_prompt?: boolean } & PromptOverrides): Prompt {
+    const source = data && typeof data === 'object' ? data : { name: '', prompt: '', enabled: false };
+    const overrides: PromptOverrides = {};
+    OVERRIDE_KEYS.forEach(key => {
+      const value = source[key];
+      if (typeof value === overrideType(key)) {
+        setOverride(overrides, key, value);
+      }
+    });
+    return new Prompt(
+      typeof source.name === 'string' ? source.name : '',
+      typeof source.prompt === 'string' ? source.prompt : '',
+      !!source.enabled,
+      !!source.skip_beforeafter_prompt,
+      overrides
+    );
   }
-}
 
+  // Create from untrusted input (an imported file), throws when the shape is invalid
+  static parse(data: unknown): Prompt {
+    if (!data || typeof data !== 'object') {
+      throw new Error("Prompt must be an object");
+    }
+    const fields = data as Record<string, unknown>;
+    if (typeof fields.name !== 'string' || typeof fields.prompt !== 'string') {
+      throw new Error(`Prompt ${JSON.stringify(fields.name ?? '')}: "name" and "prompt" must be text`);
+    }
+    OVERRIDE_KEYS.forEach(key => {
+      const value = fields[key];
+      if (value !== undefined && value !== null && typeof value !== overrideType(key)) {
+        throw new Error(`Prompt "${fields.name}": "${key}" must be a ${overrideType(key)}`);
+      }
+    });
+    return Prompt.fromJSON(data as PromptData);
+  }
+}
@@ -1,20 +1,6 @@
-export type ModelType = "gemini-2.5-flash-image" | "gemini-3-pro-image-preview";
+import { findRate, PricingTable } from "./pricing";
 
-// Pricing per model (in USD)
-const PRICING = {
-  "gemini-2.5-flash-image": {
-    input: 0.30 / 1_000_000,                       // No token cost
-    output_text: 0,                 // No token cost
-    output_image: 0,                // No token cost
-    output_imageflat: 0.039,        // $0.039 flat rate per image
-  },
-  "gemini-3-pro-image-preview": {
-    input: 2.00 / 1_000_000,        // $2.00 per 1M tokens
-    output_text: 12.00 / 1_000_000, // $12.00 per 1M tokens
-    output_image: 120.00 / 1_000_000, // $120.00 per 1M tokens
-    output_imageflat: 0,            // No flat rate
-  },
-};
+export type ModelType = "gemini-2.5-flash-image" | "gemini-3-pro-image-preview" | "mock-image";
 
 export interface TokenUsageData {
   total: number;
@@ -23,6 +9,8 @@ export interface TokenUsageData {
   output_text: number;
   images: number;
   total_cost: number;
+  input_cost: number;
+  output_cost: number;
   historic_cost: number;
   historic_images: number;
 }
@@ -34,6 +22,8 @@ export class TokenUsage {
   output_text: number = 0;
   images: number = 0;
   total_cost: number = 0;
+  input_cost: number = 0;
+  output_cost: number = 0;
   historic_cost: number = 0;
   historic_images: number = 0;
 
@@ -45,44 +35,86 @@ export class TokenUsage {
       this.output_text = data.output_text ?? 0;
       this.images = data.images ?? 0;
       this.total_cost = data.total_cost ?? 0;
+      this.input_cost = data.input_cost ?? 0;
+      this.output_cost = data.output_cost ?? 0;
       this.historic_cost = data.historic_cost ?? 0;
       this.historic_images = data.historic_images ?? 0;
     }
   }
 
   /**
-   * Add a new item (API call result) and update all fields
+   * Input and output cost of a single item (API call result), at the table's rate in effect at `at`.
+   * The flat per-image rate applies once per returned image (0 for a response without one).
+   */
+  static getItemCostBreakdown(
+    pricingTable: PricingTable,
+    input: number,
+    output_text: number,
+    output_image: number,
+    model: ModelType,
+    imageSize: string = '',
+    at: number = Date.now(),
+    images: number = 1
+  ): { inputCost: number; outputCost: number } {
+    const pricing = findRate(pricingTable, model, imageSize, at);
+    return {
+      inputCost: input * pricing.input,
+      outputCost: output_text * pricing.output_text + output_image * pricing.output_image + images * pricing.output_imageflat,
+    };
+  }
+
+  /**
+   * Cost of a single item (API call result)
+   */
+  static getItemCost(
+    pricingTable: PricingTable,
+    input: number,
+    output_text: number,
+    output_image: number,
+    model: ModelType,
+    imageSize: string = '',
+    at: number = Date.now(),
+    images: number = 1
+  ): number {
+    const { inputCost, outputCost } = TokenUsage.getItemCostBreakdown(pricingTable, input, output_text, output_image, model, imageSize, at, images);
+    return inputCost + outputCost;
+  }
+
+  /**
+   * Add a new item (API call result) and update all fields.
+   * The item is priced once, with the rate in effect when the call happened.
    */
   addItem(
+    pricingTable: PricingTable,
     input: number,
     output_text: number,
     output_image: number,
-    model: ModelType
+    model: ModelType,
+    imageSize: string = '',
+    at: number = Date.now(),
+    images: number = 1
   ): void {
-    const pricing = PRICING[model];
-
     // Update token counts
     this.input += input;
     this.output_text += output_text;
     this.output_image += output_image;
     this.total += input + output_text + output_image;
-    this.images += 1;
+    this.images += images;
 
     // Calculate cost for this item
-    const itemCost =
-      input * pricing.input +
-      output_text * pricing.output_text +
-      output_image * pricing.output_image +
-      pricing.output_imageflat;
+    const { inputCost, outputCost } = TokenUsage.getItemCostBreakdown(pricingTable, input, output_text, output_image, model, imageSize, at, images);
+    const itemCost = inputCost + outputCost;
 
     // Update costs
+    this.input_cost += inputCost;
+    this.output_cost += outputCost;
     this.total_cost += itemCost;
     this.historic_cost += itemCost;
-    this.historic_images += 1;
+    this.historic_images += images;
   }
 
   /**
-   * Reset current session (keeps total_cost and historic_cost)
+   * Reset current session (keeps historic_cost and historic_images)
    */
   reset(): void {
     this.total = 0;
@@ -91,26 +123,23 @@ export class TokenUsage {
     this.output_text = 0;
     this.images = 0;
     this.total_cost = 0;
-    // total_cost and historic_cost are preserved
+    this.input_cost = 0;
+    this.output_cost = 0;
+    // historic_cost and historic_images are preserved
   }
 
   /**
-   * Get the current cost breakdown
+   * Get the current cost breakdown (sums of the per-item costs)
    */
-  getCostBreakdown(model: ModelType): {
+  getCostBreakdown(): {
     inputCost: number;
     outputCost: number;
     totalCost: number;
     historic_cost: number;
   } {
-    const pricing = PRICING[model];
-
     return {
-      inputCost: this.input * pricing.input,
-      outputCost:
-        this.output_text * pricing.output_text +
-        this.output_image * pricing.output_image +
-        this.images * pricing.output_imageflat,
+      inputCost: this.input_cost,
+      outputCost: this.output_cost,
       totalCost: this.total_cost,
       historic_cost: this.historic_cost,
     };
@@ -127,6 +156,8 @@ export class TokenUsage {
       output_text: this.output_text,
       images: this.images,
       total_cost: this.total_cost,
+      input_cost: this.input_cost,
+      output_cost: this.output_cost,
       historic_cost: this.historic_cost,
       historic_images: this.historic_images,
     };
@@ -0,0 +1,169 @@
+export const MIN_CONCURRENCY = 1;
+export const MAX_CONCURRENCY = 8;
+
+export interface RetryOptions {
+  maxRetries: number;   // Retries after the first attempt
+  baseDelayMs: number;  // Delay before the first retry, doubled on each attempt
+  maxDelayMs: number;   // Upper bound for a single delay
+  signal?: AbortSignal; // Stops retrying (and waiting) once aborted
+  onRetry?: (attempt: number, delayMs: number, error: any) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+};
+
+const RETRYABLE_STATUS_CODES = [429, 503];
+const RETRYABLE_MESSAGE_PATTERN = /\b(429|503)\b|resource.?exhausted|rate.?limit|unavailable|overloaded/i;
+
+/**
+ * Whether an error is a transient quota/availability error worth retrying
+ */
+export const isRetryableError = (error: any): boolean => {
+  if (!error) return false;
+  if (typeof error.status === 'number' && RETRYABLE_STATUS_CODES.includes(error.status)) {
+    return true;
+  }
+  return RETRYABLE_MESSAGE_PATTERN.test(error.message || '');
+};
+
+/**
+ * Exponential backoff with jitter: random delay between half and all of base * 2^(attempt-1), capped
+ */
+export const getBackoffDelay = (attempt: number, options: RetryOptions): number => {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+};
+
+// Resolves after ms, or early when the signal is aborted
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise(resolve => {
+  if (signal?.aborted) return resolve();
+  const timeoutId = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timeoutId);
+    resolve();
+  }, { once: true });
+});
+
+/**
+ * Controls a running batch: pause stops new tasks from being picked up,
+ * stop additionally aborts in-flight requests through the signal.
+ * stopQueueing ends the batch without aborting: in-flight tasks finish, nothing new starts.
+ */
+export class BatchController {
+  private abortController = new AbortController();
+  private paused = false;
+  private queueingStopped = false;
+  private resumeWaiters: Array<() => void> = [];
+
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  get isStopped(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  get isQueueingStopped(): boolean {
+    return this.queueingStopped;
+  }
+
+  pause(): void {
+    if (this.isStopped) return;
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.flushWaiters();
+  }
+
+  stopQueueing(): void {
+    this.queueingStopped = true;
+    this.paused = false;
+    this.flushWaiters();
+  }
+
+  stop(): void {
+    this.paused = false;
+    this.abortController.abort();
+    this.flushWaiters();
+  }
+
+  /**
+   * Resolves immediately when running, otherwise once resumed or stopped
+   */
+  waitWhilePaused(): Promise<void> {
+    if (!this.paused) return Promise.resolve();
+    return new Promise(resolve => this.resumeWaiters.push(resolve));
+  }
+
+  private flushWaiters(): void {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
+
+/**
+ * Run fn, retrying retryable errors with exponential backoff.
+ * fn receives the 1-based attempt number.
+ */
+export const withRetry = async <T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<T> => {
+  let attempt = 1;
+  while (true) {
+    try {
+      return await fn(attempt);
+    } catch (error: any) {
+      if (attempt > options.maxRetries || !isRetryableError(error) || options.signal?.aborted) {
+        throw error;
+      }
+      const delayMs = getBackoffDelay(attempt, options);
+      options.onRetry?.(attempt, delayMs, error);
+      await sleep(delayMs, options.signal);
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      attempt++;
+    }
+  }
+};
+
+/**
+ * Process items with at most `concurrency` workers in flight.
+ * Before each new item is picked up, workers wait while the controller is paused
+ * and exit once it is stopped or stops queueing. Items never picked up are left untouched.
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  controller: BatchController = new BatchController()
+): Promise<void> => {
+  let nextIndex = 0;
+  const limit = Math.max(MIN_CONCURRENCY, Math.min(MAX_CONCURRENCY, Math.floor(concurrency)));
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      await controller.waitWhilePaused();
+      if (controller.isStopped || controller.isQueueingStopped || nextIndex >= items.length) return;
+      const index = nextIndex++;
+      await worker(items[index], index);
+    }
+  };
+
+  const workers = [];
+  for (let i = 0; i < Math.min(limit, items.length); i++) {
+    workers.push(runWorker());
+  }
+  await Promise.all(workers);
+};
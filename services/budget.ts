@@ -0,0 +1,132 @@
+import { GenerationUsage } from "../types";
+import { TokenUsage, ModelType } from "./TokenUsage";
+import { PricingTable } from "./pricing";
+
+// Token counts of one finished generation, kept to estimate the next runs
+export interface UsageSample {
+  model: string;
+  imageSize: string;
+  input: number;
+  output_text: number;
+  output_image: number;
+}
+
+// Caps in USD, 0 means no cap
+export interface BudgetSettings {
+  perRun: number;
+  perDay: number;
+}
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+  perRun: 0,
+  perDay: 0,
+};
+
+export interface RunEstimate {
+  taskCount: number;
+  total: number;
+  perTask: number[];     // Estimated cost of each task, in task order
+  sampleCount: number;   // Recent generations the averages were taken from (0: default token counts)
+}
+
+const MAX_SAMPLES = 100;
+
+// Used until there is history for a model: typical prompt size plus image output tokens per size
+const DEFAULT_INPUT_TOKENS = 600;
+const DEFAULT_OUTPUT_IMAGE_TOKENS: Record<string, Record<string, number>> = {
+  'gemini-3-pro-image-preview': { '1K': 1120, '2K': 1120, '4K': 2000 },
+  'gemini-2.5-flash-image': { '': 1290 },
+};
+const FALLBACK_OUTPUT_IMAGE_TOKENS = 1290;
+
+/**
+ * Append a finished generation to the recent samples, dropping the oldest past the limit
+ */
+export const addUsageSample = (samples: UsageSample[], model: string, imageSize: string, usage: GenerationUsage): UsageSample[] => {
+  const sample = { model, imageSize, input: usage.input, output_text: usage.output_text, output_image: usage.output_image };
+  return [...samples, sample].slice(-MAX_SAMPLES);
+};
+
+const average = (samples: UsageSample[], field: 'input' | 'output_text' | 'output_image') =>
+  samples.reduce((sum, s) => sum + s[field], 0) / samples.length;
+
+/**
+ * Expected cost of one generation: averages of recent samples for the same model and size,
+ * else of the same model, else default token counts
+ */
+export const estimateTaskCost = (model: string, imageSize: string, samples: UsageSample[], pricingTable: PricingTable): { cost: number; sampleCount: number } => {
+  const sameModel = samples.filter(s => s.model === model);
+  const sameSize = sameModel.filter(s => s.imageSize === imageSize);
+  const basis = sameSize.length > 0 ? sameSize : sameModel;
+  if (basis.length > 0) {
+    const cost = TokenUsage.getItemCost(pricingTable, average(basis, 'input'), average(basis, 'output_text'), average(basis, 'output_image'), model as ModelType, imageSize);
+    return { cost, sampleCount: basis.length };
+  }
+  const sizes = DEFAULT_OUTPUT_IMAGE_TOKENS[model];
+  const outputImage = sizes?.[imageSize] ?? sizes?.[''] ?? FALLBACK_OUTPUT_IMAGE_TOKENS;
+  return { cost: TokenUsage.getItemCost(pricingTable, DEFAULT_INPUT_TOKENS, 0, outputImage, model as ModelType, imageSize), sampleCount: 0 };
+};
+
+/**
+ * Estimate for a batch; tasks may differ in model and size (manifest rows)
+ */
+export const estimateRunCost = (tasks: Array<{ model: string; imageSize: string }>, samples: UsageSample[], pricingTable: PricingTable): RunEstimate => {
+  let sampleCount = 0;
+  const perTask = tasks.map(task => {
+    const estimate = estimateTaskCost(task.model, task.imageSize, samples, pricingTable);
+    sampleCount = Math.max(sampleCount, estimate.sampleCount);
+    return estimate.cost;
+  });
+  return { taskCount: tasks.length, total: perTask.reduce((sum, c) => sum + c, 0), perTask, sampleCount };
+};
+
+// Epoch milliseconds of the start of the current calendar day (local time)
+export const startOfToday = (): number => {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+/**
+ * Spend of the current calendar day, summed from recorded generations
+ */
+export const spentToday = (entries: Array<{ timestamp: number; cost: number }>): number => {
+  const since = startOfToday();
+  return entries.reduce((sum, e) => e.timestamp >= since ? sum + e.cost : sum, 0);
+};
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
+/**
+ * Tracks the spend of a running batch against the caps. Each task reserves its estimate
+ * before it starts and settles with the actual cost once done, so in-flight tasks count too.
+ */
+export class BudgetGuard {
+  private spent = 0;
+  private reserved = 0;
+
+  constructor(private settings: BudgetSettings, private spentBeforeRun: number) {}
+
+  /**
+   * Reserve the estimate of the next task. Returns why it may not start, or null when it fits.
+   */
+  reserve(estimate: number): string | null {
+    const projected = this.spent + this.reserved + estimate;
+    if (this.settings.perRun > 0 && projected > this.settings.perRun) {
+      return `Run cap ${formatUsd(this.settings.perRun)} reached: spent ${formatUsd(this.spent)}, in flight ~${formatUsd(this.reserved)}, next task ~${formatUsd(estimate)}.`;
+    }
+    if (this.settings.perDay > 0 && this.spentBeforeRun + projected > this.settings.perDay) {
+      return `Daily cap ${formatUsd(this.settings.perDay)} reached: spent today ${formatUsd(this.spentBeforeRun + this.spent)}, in flight ~${formatUsd(this.reserved)}, next task ~${formatUsd(estimate)}.`;
+    }
+    this.reserved += estimate;
+    return null;
+  }
+
+  /**
+   * Replace a task's reservation with what it actually cost (0 when it failed)
+   */
+  settle(estimate: number, actual: number): void {
+    this.reserved = Math.max(0, this.reserved - estimate);
+    this.spent += actual;
+  }
+}
@@ -0,0 +1,90 @@
+const DELIMITERS = [',', ';', '\t'];
+
+// Pick the delimiter occurring most often in the first line (spreadsheets export ; or tabs in some locales)
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells, escaped quotes ("") and line breaks
+ * inside quotes. Blank lines are skipped.
+ */
+export const parseCsv = (text: string, delimiter: string = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  const source = text.replace(/^﻿/, ''); // Strip BOM
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+/**
+ * Parse CSV text with a header row into objects keyed by (trimmed) header
+ */
+export const parseCsvRecords = (text: string): Array<Record<string, string>> => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.map(key => key.trim());
+  return rows.map(row => {
+    const record: Record<string, string> = {};
+    keys.forEach((key, i) => {
+      if (key) record[key] = (row[i] ?? '').trim();
+    });
+    return record;
+  });
+};
+
+const escapeCell = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialize rows to CSV text
+ */
+export const toCsv = (rows: unknown[][]): string => {
+  return rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+};
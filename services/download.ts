@@ -0,0 +1,41 @@
+/**
+ * Save a URL (data: or blob:) under the given file name
+ */
+export const triggerDownload = (href: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+/**
+ * Save a Blob under the given file name
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  triggerDownload(url, fileName);
+  // Give the browser time to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+/**
+ * File extension for an image MIME type (jpg when unknown)
+ */
+export const extensionForMime = (mimeType: string): string => MIME_EXTENSIONS[mimeType.toLowerCase()] || 'jpg';
+
+/**
+ * Convert a data: URL (as returned by the providers) to a Blob
+ */
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
@@ -0,0 +1,82 @@
+import { ExportItem } from "./resultExport";
+import { extensionForMime } from "./download";
+import { crc32 } from "./zip";
+
+export const DEFAULT_FILENAME_TEMPLATE = '{source}_{prompt}_{index}';
+
+export const FILENAME_TOKENS: Array<{ token: string; description: string }> = [
+  { token: '{source}', description: 'First reference file name, without extension' },
+  { token: '{prompt}', description: 'Prompt name' },
+  { token: '{model}', description: 'Model id' },
+  { token: '{ratio}', description: 'Aspect ratio, e.g. 4x5' },
+  { token: '{index}', description: 'Variation number (empty for single images)' },
+  { token: '{date}', description: 'Creation time, e.g. 20250101-093000' },
+  { token: '{hash}', description: 'Short checksum of the image bytes' },
+];
+
+const MAX_STEM_LENGTH = 150;
+// Characters not allowed in Windows/macOS/Linux file names, plus control characters
+const ILLEGAL_CHARS = /[<>:"/\\|?*\u0000-\u001f]/g;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)$/i;
+
+/**
+ * Make a file name stem safe on every OS: illegal characters become "-",
+ * whitespace becomes "_", separator runs collapse, leading/trailing separators are dropped.
+ */
+export const sanitizeFileName = (stem: string): string => {
+  let clean = stem
+    .replace(ILLEGAL_CHARS, '-')
+    .replace(/\s+/g, '_')
+    // Collapse separator runs, e.g. left behind by empty tokens
+    .replace(/([_.-])[_.-]+/g, '$1')
+    .replace(/^[.\s_-]+|[.\s_-]+$/g, '')
+    .slice(0, MAX_STEM_LENGTH);
+  if (RESERVED_NAMES.test(clean)) clean = `_${clean}`;
+  return clean || 'image';
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const formatDate = (time: number): string => {
+  const d = new Date(time);
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+};
+
+/**
+ * File name (with extension from the image MIME type) for an image, rendered from a template.
+ * Empty tokens drop their separator; refined versions get an "_r<n>" suffix.
+ */
+export const formatFileName = async (template: string, item: ExportItem): Promise<string> => {
+  const values: Record<string, string> = {
+    source: item.sourceNames[0]?.replace(/\.[^/.]+$/, "") || '',
+    prompt: item.promptName,
+    model: item.model,
+    ratio: item.aspectRatio.replace(':', 'x'),
+    index: item.variationCount > 1 ? item.variationIndex.toString() : '',
+    date: formatDate(item.createdAt),
+  };
+  if (/\{hash\}/i.test(template)) {
+    const bytes = new Uint8Array(await item.blob.arrayBuffer());
+    values.hash = crc32(bytes).toString(16).padStart(8, '0');
+  }
+
+  const rendered = (template.trim() || DEFAULT_FILENAME_TEMPLATE)
+    .replace(/\{(\w+)\}/g, (match, token: string) => values[token.toLowerCase()] ?? match);
+  const refinementPart = item.refinementIndex ? `_r${item.refinementIndex}` : '';
+  return `${sanitizeFileName(rendered)}${refinementPart}.${extensionForMime(item.mimeType)}`;
+};
+
+/**
+ * Append _2, _3... before the extension until the name is free (case-insensitive), and claim it
+ */
+export const uniqueFileName = (name: string, taken: Set<string>): string => {
+  const match = name.match(/^(.*?)(\.[^.]*)?$/);
+  const stem = match?.[1] ?? name;
+  const ext = match?.[2] ?? '';
+  let candidate = name;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${stem}_${n}${ext}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
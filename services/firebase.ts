@@ -1,6 +1,9 @@
 import { initializeApp } from "firebase/app";
 import { getAuth, GoogleAuthProvider, FacebookAuthProvider, OAuthProvider, signInWithPopup, signOut, User } from "firebase/auth";
-import { getFirestore, doc, getDoc, setDoc, updateDoc } from "firebase/firestore";
+import { getFirestore, doc, getDoc, setDoc, updateDoc, deleteDoc, collection, addDoc, getDocs, query, where, orderBy, limit, onSnapshot, Unsubscribe, increment, writeBatch, runTransaction, arrayUnion, arrayRemove } from "firebase/firestore";
+import { PromptData } from "../models/Prompt";
+import { Combo } from "../models/Combo";
+import { PricingTable, parsePricingTable } from "./pricing";
 
 // Firebase configuration from environment variable
 // Set VITE_FIREBASE_CONFIG as a JSON string in your .env file
@@ -115,37 +118,104 @@ export const logout = async () => {
   }
 };
 
-export const getAccessList = async (): Promise<string[]> => {
-  if (!db) return [];
+// Who may use the app (allowedEmails) and who may open /admin (adminEmails), in config/access
+export interface AccessConfig {
+  allowedEmails: string[];
+  adminEmails: string[];
+}
+
+// Providers may report mixed-case emails, the lists are compared case-insensitively
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export const hasEmail = (list: string[], email: string | null | undefined): boolean =>
+  !!email && list.some(entry => normalizeEmail(entry) === normalizeEmail(email));
+
+// User documents are keyed by the lowercased email, the id the security rules compare against
+const userRef = (email: string) => doc(db, "users", normalizeEmail(email));
+
+const userCollection = (email: string, name: 'prompt_history' | 'usage_ledger') => collection(db, "users", normalizeEmail(email), name);
+
+export const getAccessConfig = async (): Promise<AccessConfig> => {
+  if (!db) return { allowedEmails: [], adminEmails: [] };
   try {
     const docRef = doc(db, "config", "access");
     const docSnap = await getDoc(docRef);
     if (docSnap.exists()) {
-      return docSnap.data().allowedEmails || [];
+      return { allowedEmails: docSnap.data().allowedEmails || [], adminEmails: docSnap.data().adminEmails || [] };
     }
-    return [];
+    return { allowedEmails: [], adminEmails: [] };
   } catch (error) {
     console.error("Error fetching access list", error);
-    return [];
+    return { allowedEmails: [], adminEmails: [] };
   }
 };
 
+// Admins only: grant or revoke access (atomic array updates, safe with concurrent admins)
+export const addAllowedEmail = async (email: string): Promise<void> => {
+  if (!db) throw new Error("Firestore not configured");
+
+  await updateDoc(doc(db, "config", "access"), { allowedEmails: arrayUnion(email) });
+};
+
+export const removeAllowedEmail = async (email: string): Promise<void> => {
+  if (!db) throw new Error("Firestore not configured");
+
+  await updateDoc(doc(db, "config", "access"), { allowedEmails: arrayRemove(email) });
+};
+
+// Live updates of the pricing document (config/pricing); onChange receives null when it does not exist
+// or is invalid, so the bundled rates apply
+export const subscribeToPricing = (
+  onChange: (table: PricingTable | null) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  if (!db) throw new Error("Firestore not configured");
+
+  return onSnapshot(
+    doc(db, "config", "pricing"),
+    snap => {
+      if (!snap.exists()) return onChange(null);
+      try {
+        onChange(parsePricingTable(snap.data()));
+      } catch (error: any) {
+        console.error("Invalid pricing document", error);
+        onError?.(error);
+        onChange(null);
+      }
+    },
+    error => {
+      console.error("Error listening to pricing", error);
+      onError?.(error);
+    }
+  );
+};
+
 // User document type
 export interface UserDocument {
   firstname: string;
   lastname: string;
-  prompts: Array<{ name: string; prompt: string; enabled: boolean; skip_beforeafter_prompt: boolean }>;
+  prompts: PromptData[];
   prompt_before?: string;   // Text to add before each prompt
   prompt_after?: string;    // Text to add after each prompt
-  historic_cost?: number;   // Total accumulated cost across all sessions
-  historic_images?: number; // Total accumulated images across all sessions
+  combos?: Combo[];         // Named prompt sets, switch which prompts are enabled
+  shared_collections?: string[]; // Ids of subscribed shared prompt collections
+  shared_enabled?: string[];     // Enabled shared prompts, as sharedPromptKey(collectionId, name)
+  historic_cost?: number;   // Total accumulated cost across all sessions, only changed through increments
+  historic_images?: number; // Total accumulated images across all sessions, only changed through increments
+  last_activity?: number;   // Epoch milliseconds of the last recorded generation
+  last_usage_id?: string;   // Ledger id of the last recorded generation, the rules check the totals against it
+}
+
+export interface UsageTotals {
+  historic_cost: number;
+  historic_images: number;
 }
 
 // Get or create user document
 export const getUserDocument = async (email: string): Promise<UserDocument> => {
   if (!db) throw new Error("Firestore not configured");
 
-  const docRef = doc(db, "users", email);
+  const docRef = userRef(email);
   const docSnap = await getDoc(docRef);
 
   if (docSnap.exists()) {
@@ -169,6 +239,258 @@ export const getUserDocument = async (email: string): Promise<UserDocument> => {
 export const updateUserDocument = async (email: string, data: Partial<UserDocument>): Promise<void> => {
   if (!db) throw new Error("Firestore not configured");
   
-  const docRef = doc(db, "users", email);
+  const docRef = userRef(email);
   await updateDoc(docRef, data);
 };
+
+// Snapshot of the prompt data, written on every save (users/{email}/prompt_history)
+export interface PromptHistoryEntry {
+  id: string;
+  savedAt: number; // Epoch milliseconds
+  prompts: PromptData[];
+  prompt_before: string;
+  prompt_after: string;
+}
+
+// Save the prompt data and record it as a history snapshot in one atomic batch,
+// so the prompts and their history never diverge
+export const savePrompts = async (email: string, entry: Omit<PromptHistoryEntry, 'id'>): Promise<void> => {
+  if (!db) throw new Error("Firestore not configured");
+
+  const batch = writeBatch(db);
+  batch.update(userRef(email), { prompts: entry.prompts, prompt_before: entry.prompt_before, prompt_after: entry.prompt_after });
+  batch.set(doc(userCollection(email, "prompt_history")), entry);
+  await batch.commit();
+};
+
+// Most recent prompt history snapshots, newest first
+export const getPromptHistory = async (email: string, max: number = 50): Promise<PromptHistoryEntry[]> => {
+  if (!db) throw new Error("Firestore not configured");
+
+  const snapshot = await getDocs(query(userCollection(email, "prompt_history"), orderBy("savedAt", "desc"), limit(max)));
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as PromptHistoryEntry));
+};
+
+// One generation (or refinement), appended to users/{email}/usage_ledger as it completes
+export interface UsageLedgerEntry {
+  id?: string;
+  timestamp: number;        // Epoch milliseconds
+  model: string;
+  imageSize: string;
+  input: number;
+  output_text: number;
+  output_image: number;
+  total: number;
+  cost: number;             // USD, at the rate in effect at timestamp
+  promptName: string;
+  comboName?: string;
+  refinement?: boolean;     // A follow-up edit of an earlier result
+  noImage?: boolean;        // Blocked or empty response, billed for its tokens without an image
+  adjustment?: UsageAdjustment; // Admin correction: cost is the change of historic_cost, no tokens
+}
+
+export interface UsageAdjustment {
+  by: string;      // Admin email
+  reason: string;
+  images: number;  // Change of historic_images
+}
+
+// Ledger entry recording an admin correction of a user's totals
+const adjustmentEntry = (cost: number, adjustment: UsageAdjustment): Omit<UsageLedgerEntry, 'id'> => ({
+  timestamp: Date.now(),
+  model: '',
+  imageSize: '',
+  input: 0,
+  output_text: 0,
+  output_image: 0,
+  total: 0,
+  cost,
+  promptName: 'Admin adjustment',
+  adjustment
+});
+
+// Record one generation under a client-chosen id: the ledger entry and the increments of the
+// user's totals are written in one atomic transaction, so concurrent tabs and devices add up
+// instead of overwriting each other. An id already in the ledger is skipped, so a write whose
+// outcome was unknown can be retried without counting it twice.
+export const recordUsage = async (email: string, id: string, entry: Omit<UsageLedgerEntry, 'id'>): Promise<void> => {
+  if (!db) throw new Error("Firestore not configured");
+
+  // Firestore rejects undefined fields
+  const data = Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined));
+  const ledgerRef = doc(userCollection(email, "usage_ledger"), id);
+  const totalsRef = userRef(email);
+  await runTransaction(db, async transaction => {
+    if ((await transaction.get(ledgerRef)).exists()) return;
+    const user = await transaction.get(totalsRef);
+    transaction.set(ledgerRef, data);
+    transaction.update(totalsRef, {
+      historic_cost: increment(entry.cost),
+      historic_images: increment(entry.noImage ? 0 : 1),
+      // A retried older entry must not move the last activity back
+      last_activity: Math.max(user.data()?.last_activity ?? 0, entry.timestamp),
+      last_usage_id: id
+    });
+  });
+};
+
+// Admins only: every user document, keyed by email
+export const listUserDocuments = async (): Promise<Array<UserDocument & { email: string }>> => {
+  if (!db) throw new Error("Firestore not configured");
+
+  const snapshot = await getDocs(collection(db, "users"));
+  return snapshot.docs.map(d => ({ ...(d.data() as UserDocument), email: d.id }));
+};
+
+// Admins only: add (or with negative values remove) cost and images from a user's totals.
+// The change is recorded in the user's ledger in the same batch, so totals and reports agree.
+export const adjustUsageTotals = async (email: string, cost: number, images: number, adminEmail: string, reason: string): Promise<void> => {
+  if (!db) throw new Error("Firestore not configured");
+
+  const batch = writeBatch(db);
+  batch.set(doc(userCollection(email, "usage_ledger")), adjustmentEntry(cost, { by: adminEmail, reason, images }));
+  batch.update(userRef(email), { historic_cost: increment(cost), historic_images: increment(images) });
+  await batch.commit();
+};
+
+// Admins only: start a user's totals over. The ledger keeps every entry plus one cancelling the
+// totals at that moment (read in the same transaction, so concurrent generations are not lost).
+export const resetUsageTotals = async (email: string, adminEmail: string, reason: string): Promise<void> => {
+  if (!db) throw new Error("Firestore not configured");
+
+  const totalsRef = userRef(email);
+  await runTransaction(db, async transaction => {
+    const data = (await transaction.get(totalsRef)).data();
+    const cost = -(data?.historic_cost ?? 0);
+    const images = -(data?.historic_images ?? 0);
+    transaction.set(doc(userCollection(email, "usage_ledger")), adjustmentEntry(cost, { by: adminEmail, reason, images }));
+    transaction.update(totalsRef, { historic_cost: 0, historic_images: 0 });
+  });
+};
+
+// Live usage totals of a user, the source of truth for historic cost and images
+export const subscribeToUsageTotals = (
+  email: string,
+  onChange: (totals: UsageTotals) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  if (!db) throw new Error("Firestore not configured");
+
+  return onSnapshot(
+    userRef(email),
+    snap => {
+      const data = snap.data();
+      onChange({ historic_cost: data?.historic_cost ?? 0, historic_images: data?.historic_images ?? 0 });
+    },
+    error => {
+      console.error("Error listening to usage totals", error);
+      onError?.(error);
+    }
+  );
+};
+
+// Live ledger entries from `since` on, e.g. today's spend across every tab and device
+export const subscribeToUsageLedger = (
+  email: string,
+  since: number,
+  onChange: (entries: UsageLedgerEntry[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  if (!db) throw new Error("Firestore not configured");
+
+  return onSnapshot(
+    query(userCollection(email, "usage_ledger"), where("timestamp", ">=", since)),
+    snapshot => onChange(snapshot.docs.map(d => ({ id: d.id, ...d.data() } as UsageLedgerEntry))),
+    error => {
+      console.error("Error listening to the usage ledger", error);
+      onError?.(error);
+    }
+  );
+};
+
+// Ledger entries from `since` on (all when 0), newest first
+export const getUsageLedger = async (email: string, since: number = 0): Promise<UsageLedgerEntry[]> => {
+  if (!db) throw new Error("Firestore not configured");
+
+  const snapshot = await getDocs(query(userCollection(email, "usage_ledger"), where("timestamp", ">=", since), orderBy("timestamp", "desc")));
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as UsageLedgerEntry));
+};
+
+// Prompt collection shared with the team (prompt_collections/{id}), editable by its editors only
+export interface PromptCollection {
+  id: string;
+  name: string;
+  prompts: PromptData[];
+  editors: string[];   // Emails allowed to change the collection
+  updatedAt?: number;  // Epoch milliseconds
+  updatedBy?: string;
+}
+
+// Identifies a shared prompt in UserDocument.shared_enabled
+export const sharedPromptKey = (collectionId: string, promptName: string): string => `${collectionId}/${promptName}`;
+
+/**
+ * Enabled keys still pointing at a subscribed collection and, once it is loaded, at one of its prompts
+ */
+export const pruneSharedEnabled = (keys: string[], subscribedIds: string[], loaded: Record<string, PromptCollection>): string[] => {
+  return keys.filter(key => {
+    const id = key.slice(0, key.indexOf('/'));
+    if (!subscribedIds.includes(id)) return false;
+    const collection = loaded[id];
+    return !collection || (collection.prompts || []).some(p => sharedPromptKey(id, p.name) === key);
+  });
+};
+
+// All shared collections, for browsing
+export const listPromptCollections = async (): Promise<PromptCollection[]> => {
+  if (!db) throw new Error("Firestore not configured");
+
+  const snapshot = await getDocs(query(collection(db, "prompt_collections"), orderBy("name")));
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as PromptCollection));
+};
+
+// Live updates of one collection; onChange receives null when it was deleted
+export const subscribeToPromptCollection = (
+  id: string,
+  onChange: (collection: PromptCollection | null) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  // Nothing to follow without Firestore, the collection just stays unloaded
+  if (!db) return () => {};
+
+  return onSnapshot(
+    doc(db, "prompt_collections", id),
+    snap => onChange(snap.exists() ? ({ id: snap.id, ...snap.data() } as PromptCollection) : null),
+    error => {
+      console.error("Error listening to prompt collection", error);
+      onError?.(error);
+    }
+  );
+};
+
+// Create a collection, the creator becomes its first editor
+export const createPromptCollection = async (name: string, email: string, prompts: PromptData[] = []): Promise<string> => {
+  if (!db) throw new Error("Firestore not configured");
+
+  const ref = await addDoc(collection(db, "prompt_collections"), {
+    name,
+    prompts,
+    editors: [normalizeEmail(email)],
+    updatedAt: Date.now(),
+    updatedBy: normalizeEmail(email)
+  });
+  return ref.id;
+};
+
+// Replace the prompts of a collection (editors only, enforced by security rules)
+export const updatePromptCollection = async (id: string, prompts: PromptData[], email: string): Promise<void> => {
+  if (!db) throw new Error("Firestore not configured");
+
+  await updateDoc(doc(db, "prompt_collections", id), { prompts, updatedAt: Date.now(), updatedBy: email });
+};
+
+export const deletePromptCollection = async (id: string): Promise<void> => {
+  if (!db) throw new Error("Firestore not configured");
+
+  await deleteDoc(doc(db, "prompt_collections", id));
+};
@@ -0,0 +1,67 @@
+import { ExportItem } from "./resultExport";
+
+// IndexedDB database holding completed results across reloads
+const DB_NAME = 'banana_pic_gen';
+const DB_VERSION = 1;
+const STORE = 'gallery';
+
+// A stored result; refinement entries keep the instruction that produced them
+export interface GalleryEntry extends ExportItem {
+  id: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request in its own transaction
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = action(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const saveGalleryEntry = async (entry: GalleryEntry): Promise<void> => {
+  await withStore('readwrite', store => store.put(entry));
+};
+
+/**
+ * All stored entries, newest first
+ */
+export const listGalleryEntries = async (): Promise<GalleryEntry[]> => {
+  const entries = await withStore<GalleryEntry[]>('readonly', store => store.index('createdAt').getAll());
+  return entries.reverse();
+};
+
+export const deleteGalleryEntries = async (ids: string[]): Promise<void> => {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    ids.forEach(id => store.delete(id));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -1,46 +1,139 @@
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, GenerateContentResponse, Part } from "@google/genai";
+import { ImageProvider, ImageGenerationRequest, ImageGenerationResult, ImageUsage, ModelPricing, ProviderCapabilities, ConversationTurn, GenerationError, ASPECT_RATIOS, IMAGE_SIZES } from "./imageProvider";
+import { GenerationDiagnostics } from "../types";
+import { ReferenceImage } from "./imagePreprocessor";
+
+// Pricing per model (in USD)
+// Bundled rates, used when the pricing document has no entry for a model/size.
+// Rates per image size, "" applies to any size
+const PRICING: Record<string, Record<string, ModelPricing>> = {
+  "gemini-2.5-flash-image": {
+    "": {
+      input: 0.30 / 1_000_000,        // $0.30 per 1M tokens
+      output_text: 0,                 // No token cost
+      output_image: 0,                // No token cost
+      output_imageflat: 0.039,        // $0.039 flat rate per image
+    },
+  },
+  "gemini-3-pro-image-preview": {
+    // Output images bill per image: 1K and 2K are 1120 tokens, 4K is 2000 tokens at $120 per 1M
+    "1K": {
+      input: 2.00 / 1_000_000,        // $2.00 per 1M tokens
+      output_text: 12.00 / 1_000_000, // $12.00 per 1M tokens
+      output_image: 0,
+      output_imageflat: 0.134,
+    },
+    "2K": {
+      input: 2.00 / 1_000_000,
+      output_text: 12.00 / 1_000_000,
+      output_image: 0,
+      output_imageflat: 0.134,
+    },
+    "4K": {
+      input: 2.00 / 1_000_000,
+      output_text: 12.00 / 1_000_000,
+      output_image: 0,
+      output_imageflat: 0.24,
+    },
+  },
+};
+
+// Split a data: URL into the inline data shape expected by the API
+const dataUrlToInlineData = (dataUrl: string): { mimeType: string; data: string } => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'image/png';
+  return { mimeType, data };
+};
+
+const referencesToInlineData = (references: ReferenceImage[]) => {
+  return references.map(reference => ({
+    inlineData: {
+      mimeType: reference.mimeType,
+      data: reference.data
+    }
+  }));
+};
+
+// Convert earlier conversation turns to API contents
+const historyToContents = (history: ConversationTurn[]) => {
+  const contents = [];
+  for (const turn of history) {
+    const parts: Part[] = [];
+    if (turn.text) parts.push({ text: turn.text });
+    parts.push(...referencesToInlineData(turn.references || []));
+    for (const imageUrl of turn.imageUrls || []) {
+      parts.push({ inlineData: dataUrlToInlineData(imageUrl), thoughtSignature: turn.thoughtSignature });
+    }
+    contents.push({ role: turn.role, parts });
+  }
+  return contents;
+};
+
+// Token counts billed for a response, with or without an image
+const getUsage = (response: GenerateContentResponse): ImageUsage => ({
+  total: response.usageMetadata?.totalTokenCount || 0,
+  input: (response.usageMetadata?.promptTokenCount || 0) + (response.usageMetadata?.toolUsePromptTokenCount || 0),
+  output_image: response.usageMetadata?.candidatesTokenCount || 0,
+  output_text: response.usageMetadata?.thoughtsTokenCount || 0,
+});
+
+// Collect finish reason, safety feedback and text parts from a response
+const getDiagnostics = (response: GenerateContentResponse): GenerationDiagnostics => {
+  const candidate = response.candidates?.[0];
+  const ratings = candidate?.safetyRatings ?? response.promptFeedback?.safetyRatings ?? [];
+  const text = (candidate?.content?.parts || [])
+    .filter(part => part.text && !part.thought)
+    .map(part => part.text)
+    .join('\n')
+    .trim();
+
+  return {
+    finishReason: candidate?.finishReason,
+    finishMessage: candidate?.finishMessage,
+    blockReason: response.promptFeedback?.blockReason,
+    blockReasonMessage: response.promptFeedback?.blockReasonMessage,
+    safetyRatings: ratings.map(r => ({ category: r.category || 'UNKNOWN', probability: r.probability, blocked: r.blocked })),
+    text: text || undefined,
+  };
+};
 
 export const generateImageFromReference = async (
-  inputFiles: File[],
+  references: ReferenceImage[],
   promptText: string,
   aspectRatio: string = "4:5",
   imageSize: string = "2K",
   modelName: string = 'gemini-2.5-flash-image',
-  temperature: number = 1.0
-): Promise<{ imageUrl: string; usage: { total: number; input: number; output_image: number; output_text: number } }> => {
+  temperature: number = 1.0,
+  signal?: AbortSignal,
+  history: ConversationTurn[] = []
+): Promise<ImageGenerationResult> => {
   try {
     // We must instantiate a new client for each request to ensure we pick up the latest API key
     // if the user re-selected it via window.aistudio.
     const apiKey = window.env?.API_KEY || process.env.API_KEY;
     const ai = new GoogleGenAI({ apiKey });
 
-    const inlineDataArray = [];
-    for (const file of inputFiles) {
-      const base64Data = await fileToBase64(file);
-      inlineDataArray.push({
-        inlineData: {
-          mimeType: file.type,
-          data: base64Data
-        }
-      });
-    }
-    
+    const inlineDataArray = referencesToInlineData(references);
+    const userParts = [
+      {
+        text: promptText,
+      },
+      ...inlineDataArray,
+    ];
+
     const response = await ai.models.generateContent({
       model: modelName,
-      contents: {
-        parts: [
-          {
-            text: promptText,
-          },
-          ...inlineDataArray,
-        ],
-      },
+      // Multi-turn when refining: earlier turns followed by the new instruction
+      contents: history.length > 0
+        ? [...historyToContents(history), { role: 'user', parts: userParts }]
+        : { parts: userParts },
       // gemini-2.5-flash-image configuration
       config: {
+        abortSignal: signal,
         temperature: temperature,
         imageConfig: {
           aspectRatio: aspectRatio,
-          imageSize: modelName === 'gemini-2.5-flash-image' ? undefined : imageSize.toUpperCase() 
+          imageSize: modelName === 'gemini-2.5-flash-image' ? undefined : imageSize.toUpperCase()
         }
       }
     });
@@ -52,39 +145,59 @@ export const generateImageFromReference = async (
         for (const part of parts) {
           if (part.inlineData && part.inlineData.data) {
              const imageUrl = `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
-             const usage = {
-               total: response.usageMetadata?.totalTokenCount || 0,
-               input: (response.usageMetadata?.promptTokenCount || 0)+(response.usageMetadata?.toolUsePromptTokenCount || 0),
-               output_image: (response.usageMetadata?.candidatesTokenCount || 0),
-               output_text: (response.usageMetadata?.thoughtsTokenCount || 0),
-             };
-             return { imageUrl, usage };
+             return { imageUrl, usage: getUsage(response), thoughtSignature: part.thoughtSignature, diagnostics: getDiagnostics(response) };
           }
         }
       }
     }
-    
-    throw new Error("No image data found in response");
+
+    // No image: keep what the model said instead, and the tokens it still billed
+    throw new GenerationError(getDiagnostics(response), response.usageMetadata ? getUsage(response) : undefined);
 
   } catch (error: any) {
     console.error("Gemini Generation Error:", error);
-    throw new Error(error.message || "Unknown error during generation");
+    if (error instanceof GenerationError) {
+      throw error;
+    }
+    // Keep the HTTP status so callers can tell quota errors from hard failures
+    const wrapped: Error & { status?: number } = new Error(error.message || "Unknown error during generation");
+    wrapped.status = error.status;
+    throw wrapped;
   }
 };
 
-export const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      if (typeof reader.result === 'string') {
-        // Remove the data URL prefix (e.g., "data:image/jpeg;base64,") to get just the base64 string
-        const base64 = reader.result.split(',')[1];
-        resolve(base64);
-      } else {
-        reject(new Error("Failed to read file"));
-      }
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  models: [
+    { label: "Nano Banana Pro", value: "gemini-3-pro-image-preview" },
+    { label: "Nano Banana", value: "gemini-2.5-flash-image" }
+  ],
+
+  capabilities(model: string): ProviderCapabilities {
+    return {
+      requiresApiKey: true,
+      aspectRatios: ASPECT_RATIOS,
+      // gemini-2.5-flash-image has a fixed output size
+      imageSizes: model === 'gemini-2.5-flash-image' ? [] : IMAGE_SIZES,
+      supportsTemperature: true,
     };
-    reader.onerror = error => reject(error);
-  });
-};
\ No newline at end of file
+  },
+
+  pricing(model: string, imageSize: string): ModelPricing {
+    const sizes = PRICING[model] ?? PRICING["gemini-2.5-flash-image"];
+    return sizes[imageSize] ?? sizes[""] ?? sizes["2K"];
+  },
+
+  generate(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    return generateImageFromReference(
+      request.references,
+      request.prompt,
+      request.aspectRatio,
+      request.imageSize,
+      request.model,
+      request.temperature,
+      request.signal,
+      request.history
+    );
+  },
+};
@@ -0,0 +1,239 @@
+import { ExportItem } from "./resultExport";
+import { crc32 } from "./zip";
+
+// How an image was made, written into downloaded files so a shot can be reproduced later
+export interface ImageMetadata {
+  generator: string;
+  version: number;
+  promptName: string;
+  prompt: string;
+  comboName?: string;
+  refinement?: string;     // Follow-up instruction when this is a refined version
+  model: string;
+  aspectRatio: string;
+  imageSize: string;
+  temperature: number;
+  createdAt: string;       // ISO timestamp
+  sources: string[];       // Reference file names, empty for text only
+  variation?: string;      // "2/4" when several variations were requested
+}
+
+export interface MetadataOptions {
+  embed: boolean;          // Write metadata into PNG/JPEG files
+  sidecar: boolean;        // Also save <image name>.json next to each image
+}
+
+export const DEFAULT_METADATA_OPTIONS: MetadataOptions = {
+  embed: true,
+  sidecar: false,
+};
+
+const GENERATOR = 'BananaPicGen';
+const METADATA_VERSION = 1;
+const PNG_KEYWORD = 'banana_pic_gen';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_NAMESPACE = 'urn:banana-pic-gen:1/';
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const MAX_JPEG_SEGMENT = 0xffff - 2;
+
+export const metadataFromItem = (item: ExportItem): ImageMetadata => ({
+  generator: GENERATOR,
+  version: METADATA_VERSION,
+  promptName: item.promptName,
+  prompt: item.promptText,
+  comboName: item.comboName,
+  refinement: item.refinement,
+  model: item.model,
+  aspectRatio: item.aspectRatio,
+  imageSize: item.imageSize,
+  temperature: item.temperature,
+  createdAt: new Date(item.createdAt).toISOString(),
+  sources: item.sourceNames,
+  variation: item.variationCount > 1 ? `${item.variationIndex}/${item.variationCount}` : undefined,
+});
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
+
+// --- PNG: iTXt chunk (UTF-8 text) placed before IEND ---
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(new TextEncoder().encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const pngTextChunk = (keyword: string, text: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  // keyword \0, compression flag + method, empty language tag \0, empty translated keyword \0, text
+  return pngChunk('iTXt', concat([encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+};
+
+// Visit each chunk in order until the callback returns true
+const walkPngChunks = (bytes: Uint8Array, visit: (type: string, start: number, data: Uint8Array) => boolean | void) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder('latin1');
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = decoder.decode(bytes.subarray(offset + 4, offset + 8));
+    if (visit(type, offset, bytes.subarray(offset + 8, offset + 8 + length))) return;
+    offset += 12 + length;
+  }
+};
+
+const embedPng = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  let iendStart = -1;
+  walkPngChunks(bytes, (type, start) => {
+    if (type === 'IEND') {
+      iendStart = start;
+      return true;
+    }
+  });
+  if (iendStart < 0) return bytes;
+  return concat([
+    bytes.subarray(0, iendStart),
+    pngTextChunk('Description', metadata.prompt),
+    pngTextChunk('Software', GENERATOR),
+    pngTextChunk(PNG_KEYWORD, JSON.stringify(metadata)),
+    bytes.subarray(iendStart),
+  ]);
+};
+
+const readPng = (bytes: Uint8Array): string | null => {
+  let text: string | null = null;
+  walkPngChunks(bytes, (type, _start, data) => {
+    if (type !== 'iTXt' && type !== 'tEXt') return;
+    const keywordEnd = data.indexOf(0);
+    const keyword = new TextDecoder('latin1').decode(data.subarray(0, keywordEnd));
+    if (keyword !== PNG_KEYWORD) return;
+    if (type === 'tEXt') {
+      text = new TextDecoder('latin1').decode(data.subarray(keywordEnd + 1));
+    } else {
+      // Skip compression flag/method, then the language tag and translated keyword
+      const languageEnd = data.indexOf(0, keywordEnd + 3);
+      const translatedEnd = data.indexOf(0, languageEnd + 1);
+      text = new TextDecoder().decode(data.subarray(translatedEnd + 1));
+    }
+    return true;
+  });
+  return text;
+};
+
+// --- JPEG: XMP packet in an APP1 segment after SOI/JFIF ---
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/\r?\n/g, '&#10;');
+
+const unescapeXml = (text: string) => text
+  .replace(/&#(x?)([0-9a-f]+);/gi, (_, hex: string, code: string) => String.fromCodePoint(parseInt(code, hex ? 16 : 10)))
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&amp;/g, '&');
+
+const buildXmpPacket = (metadata: ImageMetadata): string =>
+  `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>` +
+  `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">` +
+  `<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:bpg="${XMP_NAMESPACE}"` +
+  ` xmp:CreatorTool="${GENERATOR}" xmp:CreateDate="${metadata.createdAt}" bpg:Metadata="${escapeXml(JSON.stringify(metadata))}">` +
+  `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li></rdf:Alt></dc:description>` +
+  `</rdf:Description></rdf:RDF></x:xmpmeta><?xpacket end="w"?>`;
+
+// Segments between SOI and the image data (start of scan)
+const walkJpegSegments = (bytes: Uint8Array, visit: (marker: number, start: number, data: Uint8Array) => boolean | void) => {
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) return;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (visit(marker, offset, bytes.subarray(offset + 4, offset + 2 + length))) return;
+    offset += 2 + length;
+  }
+};
+
+const embedJpeg = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  const payload = new TextEncoder().encode(XMP_HEADER + buildXmpPacket(metadata));
+  // A single APP1 segment holds at most 64 KB; very long prompts are left to the sidecar
+  if (payload.length > MAX_JPEG_SEGMENT) return bytes;
+
+  // Keep JFIF (APP0) first, as decoders expect
+  let insertAt = 2;
+  walkJpegSegments(bytes, (marker, start, data) => {
+    if (marker !== 0xe0) return true;
+    insertAt = start + 4 + data.length;
+  });
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  segment.set(payload, 4);
+  return concat([bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt)]);
+};
+
+const readJpeg = (bytes: Uint8Array): string | null => {
+  let text: string | null = null;
+  walkJpegSegments(bytes, (marker, _start, data) => {
+    if (marker !== 0xe1) return;
+    const content = new TextDecoder().decode(data);
+    if (!content.startsWith(XMP_HEADER)) return;
+    const match = content.match(/bpg:Metadata="([^"]*)"/);
+    if (!match) return;
+    text = unescapeXml(match[1]);
+    return true;
+  });
+  return text;
+};
+
+/**
+ * Image with the metadata written in: an iTXt chunk for PNG, an XMP packet for JPEG.
+ * Other formats are returned unchanged.
+ */
+export const embedMetadata = async (blob: Blob, metadata: ImageMetadata): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (isPng(bytes)) return new Blob([embedPng(bytes, metadata)] as BlobPart[], { type: blob.type });
+  if (isJpeg(bytes)) return new Blob([embedJpeg(bytes, metadata)] as BlobPart[], { type: blob.type });
+  return blob;
+};
+
+const parseMetadata = (text: string): ImageMetadata | null => {
+  try {
+    const data = JSON.parse(text);
+    return data && typeof data === 'object' && data.generator === GENERATOR ? data as ImageMetadata : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read metadata back from a downloaded PNG/JPEG or from a JSON sidecar. Null when none is found.
+ */
+export const readMetadata = async (file: Blob): Promise<ImageMetadata | null> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (isPng(bytes)) {
+    const text = readPng(bytes);
+    return text ? parseMetadata(text) : null;
+  }
+  if (isJpeg(bytes)) {
+    const text = readJpeg(bytes);
+    return text ? parseMetadata(text) : null;
+  }
+  return parseMetadata(new TextDecoder().decode(bytes));
+};
@@ -0,0 +1,142 @@
+// A reference picture ready to be sent inline with a request
+export interface ReferenceImage {
+  name: string;
+  mimeType: string;
+  data: string; // base64, without the data: URL prefix
+}
+
+export type PreprocessFormat = 'image/jpeg' | 'image/webp';
+
+export interface PreprocessOptions {
+  enabled: boolean;          // When false the original file is sent untouched
+  maxEdge: number;           // Longest edge in pixels, 0 keeps the original size
+  format: PreprocessFormat;  // PNG and transparent pictures stay PNG
+  quality: number;           // 0..1
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  enabled: true,
+  maxEdge: 2048,
+  format: 'image/jpeg',
+  quality: 0.9,
+};
+
+export const MAX_EDGE_OPTIONS = [0, 1024, 1536, 2048, 3072];
+
+export const fileToBase64 = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => {
+      if (typeof reader.result === 'string') {
+        // Remove the data URL prefix (e.g., "data:image/jpeg;base64,") to get just the base64 string
+        const base64 = reader.result.split(',')[1];
+        resolve(base64);
+      } else {
+        reject(new Error("Failed to read file"));
+      }
+    };
+    reader.onerror = error => reject(error);
+  });
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: string, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode image")), format, quality);
+  });
+};
+
+// True when any pixel is not fully opaque
+const hasTransparency = (ctx: CanvasRenderingContext2D, width: number, height: number): boolean => {
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  for (let i = 3; i < pixels.length; i += 4) {
+    if (pixels[i] < 255) return true;
+  }
+  return false;
+};
+
+/**
+ * Downscale and re-encode a reference picture. PNG sources, and transparent ones when the
+ * target format has no alpha channel, are re-encoded as PNG so they keep their transparency.
+ * Decoding applies the EXIF orientation, and re-encoding through a canvas drops all
+ * EXIF/GPS metadata from the output.
+ */
+export const preprocessImage = async (file: File, options: PreprocessOptions): Promise<{ image: ReferenceImage; size: number; width: number; height: number }> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const longEdge = Math.max(bitmap.width, bitmap.height);
+    const scale = options.maxEdge > 0 && longEdge > options.maxEdge ? options.maxEdge / longEdge : 1;
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas not supported");
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+
+    const keepPng = file.type === 'image/png'
+      || (options.format === 'image/jpeg' && file.type !== 'image/jpeg' && hasTransparency(ctx, width, height));
+    const format = keepPng ? 'image/png' : options.format;
+    const blob = await canvasToBlob(canvas, format, options.quality);
+    return {
+      image: { name: file.name, mimeType: blob.type || format, data: await fileToBase64(blob) },
+      size: blob.size,
+      width,
+      height,
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+};
+
+/**
+ * Prepares each reference file once per batch, no matter how many tasks use it
+ */
+export class ReferenceCache {
+  private cache = new Map<File, Promise<ReferenceImage>>();
+  private options: PreprocessOptions;
+  private onLog?: (message: string, type: 'info' | 'warning') => void;
+
+  constructor(options: PreprocessOptions, onLog?: (message: string, type: 'info' | 'warning') => void) {
+    this.options = options;
+    this.onLog = onLog;
+  }
+
+  get(file: File): Promise<ReferenceImage> {
+    let entry = this.cache.get(file);
+    if (!entry) {
+      entry = this.prepare(file);
+      this.cache.set(file, entry);
+      // Let a failed read be retried by the next task
+      entry.catch(() => this.cache.delete(file));
+    }
+    return entry;
+  }
+
+  getAll(files: File[]): Promise<ReferenceImage[]> {
+    return Promise.all(files.map(file => this.get(file)));
+  }
+
+  private async prepare(file: File): Promise<ReferenceImage> {
+    if (this.options.enabled) {
+      try {
+        const { image, size, width, height } = await preprocessImage(file, this.options);
+        this.onLog?.(`Prepared ${file.name}: ${formatBytes(file.size)} -> ${formatBytes(size)} (${width}x${height}, ${image.mimeType})`, 'info');
+        return image;
+      } catch (error) {
+        // Formats the browser cannot decode (e.g. HEIC) are sent as-is
+        console.error("Preprocessing failed", error);
+        this.onLog?.(`Could not preprocess ${file.name}, sending original file.`, 'warning');
+      }
+    }
+    return { name: file.name, mimeType: file.type, data: await fileToBase64(file) };
+  }
+}
@@ -0,0 +1,99 @@
+import { GenerationDiagnostics, GenerationUsage } from "../types";
+import { ReferenceImage } from "./imagePreprocessor";
+
+// Token counts reported for a single generation
+export type ImageUsage = GenerationUsage;
+
+// An earlier turn of a multi-turn conversation (used for refinement)
+export interface ConversationTurn {
+  role: 'user' | 'model';
+  text?: string;
+  references?: ReferenceImage[]; // Reference pictures sent with a user turn
+  imageUrls?: string[];          // Images (data: URLs) returned by a model turn
+  thoughtSignature?: string;     // Opaque token returned with an image, sent back with it in later turns
+}
+
+export interface ImageGenerationRequest {
+  references: ReferenceImage[];
+  prompt: string;
+  history?: ConversationTurn[]; // Earlier turns; references and prompt form the next user turn
+  model: string;
+  aspectRatio: string;
+  imageSize: string;
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+export interface ImageGenerationResult {
+  imageUrl: string; // data: URL
+  usage: ImageUsage;
+  thoughtSignature?: string;
+  diagnostics?: GenerationDiagnostics; // Finish reason and any text returned alongside the image
+}
+
+/**
+ * Raised when a response carries no image, with the details the model gave instead
+ */
+export class GenerationError extends Error {
+  status?: number;
+  diagnostics: GenerationDiagnostics;
+  usage?: ImageUsage; // Tokens billed for the response despite the missing image
+
+  constructor(diagnostics: GenerationDiagnostics, usage?: ImageUsage) {
+    super(describeDiagnostics(diagnostics));
+    this.name = 'GenerationError';
+    this.diagnostics = diagnostics;
+    this.usage = usage;
+  }
+}
+
+const truncate = (text: string, max: number): string => text.length > max ? `${text.slice(0, max)}...` : text;
+
+/**
+ * One-line explanation telling a blocked prompt, a safety block, a refusal and an empty response apart
+ */
+export const describeDiagnostics = (diagnostics: GenerationDiagnostics): string => {
+  const { finishReason, blockReason, text } = diagnostics;
+  if (blockReason) {
+    return `Prompt blocked (${blockReason})${diagnostics.blockReasonMessage ? `: ${diagnostics.blockReasonMessage}` : ''}`;
+  }
+  if (finishReason && /SAFETY|PROHIBITED|BLOCKLIST|SPII|RECITATION/.test(finishReason)) {
+    const categories = (diagnostics.safetyRatings || []).filter(r => r.blocked).map(r => r.category);
+    return `Blocked by safety filter (${finishReason})${categories.length ? `: ${categories.join(', ')}` : ''}`;
+  }
+  if (text) {
+    return `Model replied with text instead of an image${finishReason ? ` (${finishReason})` : ''}: ${truncate(text, 200)}`;
+  }
+  return `Empty response, no image returned${finishReason ? ` (${finishReason})` : ''}${diagnostics.finishMessage ? `: ${diagnostics.finishMessage}` : ''}`;
+};
+
+export interface ProviderCapabilities {
+  requiresApiKey: boolean;
+  aspectRatios: string[];
+  imageSizes: string[];       // Empty when the model has a fixed output size
+  supportsTemperature: boolean;
+}
+
+// Rates in USD (per token, or per image for output_imageflat)
+export interface ModelPricing {
+  input: number;
+  output_text: number;
+  output_image: number;
+  output_imageflat: number;
+}
+
+export interface ModelOption {
+  label: string;
+  value: string;
+}
+
+export interface ImageProvider {
+  id: string;
+  models: ModelOption[];
+  capabilities(model: string): ProviderCapabilities;
+  pricing(model: string, imageSize: string): ModelPricing; // Bundled rates, see services/pricing.ts
+  generate(request: ImageGenerationRequest): Promise<ImageGenerationResult>;
+}
+
+export const ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+export const IMAGE_SIZES = ['1K', '2K', '4K'];
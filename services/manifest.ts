@@ -0,0 +1,139 @@
+import { PromptOverrides } from "../models/Prompt";
+import { parseCsvRecords } from "./csv";
+import { ASPECT_RATIOS, IMAGE_SIZES } from "./imageProvider";
+import { isKnownModel } from "./providers";
+
+// Overrides a manifest row can set
+export type ManifestOverrides = Pick<PromptOverrides, 'aspect_ratio' | 'image_size' | 'model' | 'temperature'>;
+
+// One planned generation group: references + prompt + values
+export interface ManifestRow {
+  line: number;                        // Row number in the source, for error messages
+  files: string[];                     // Reference file names, empty for text only
+  promptName?: string;                 // Name of a saved prompt...
+  promptText?: string;                 // ...or literal prompt text
+  variables: Record<string, string>;
+  overrides: ManifestOverrides;
+}
+
+export interface Manifest {
+  name: string; // Source file name
+  rows: ManifestRow[];
+}
+
+// Columns with a fixed meaning, every other CSV column is a variable
+const FILES_COLUMNS = ['files', 'file', 'filename', 'references', 'reference', 'image', 'images'];
+const PROMPT_NAME_COLUMNS = ['prompt', 'prompt_name'];
+const PROMPT_TEXT_COLUMNS = ['prompt_text'];
+const OVERRIDE_COLUMNS: Record<string, keyof ManifestOverrides> = {
+  aspect_ratio: 'aspect_ratio',
+  ratio: 'aspect_ratio',
+  image_size: 'image_size',
+  size: 'image_size',
+  model: 'model',
+  temperature: 'temperature',
+};
+
+// Several reference files in one cell are separated by ; or |
+const splitFiles = (value: unknown): string[] => {
+  const list = Array.isArray(value) ? value : String(value ?? '').split(/[;|]/);
+  return list.map(name => String(name).trim()).filter(Boolean);
+};
+
+/**
+ * Validate one raw row. Column names are matched case-insensitively, variable names keep their case.
+ */
+const parseRow = (raw: Record<string, unknown>, line: number, errors: string[]): ManifestRow | null => {
+  const rowErrors: string[] = [];
+  const row: ManifestRow = { line, files: [], variables: {}, overrides: {} };
+
+  for (const [name, value] of Object.entries(raw)) {
+    if (value === undefined || value === null || value === '') continue;
+    const key = name.trim().toLowerCase();
+    const text = typeof value === 'string' ? value.trim() : value;
+
+    if (FILES_COLUMNS.includes(key)) {
+      row.files = splitFiles(text);
+    } else if (PROMPT_NAME_COLUMNS.includes(key)) {
+      row.promptName = String(text);
+    } else if (PROMPT_TEXT_COLUMNS.includes(key)) {
+      row.promptText = String(text);
+    } else if (key === 'variables' && typeof value === 'object') {
+      Object.entries(value as Record<string, unknown>).forEach(([variable, v]) => {
+        row.variables[variable] = String(v ?? '');
+      });
+    } else if (OVERRIDE_COLUMNS[key]) {
+      const override = OVERRIDE_COLUMNS[key];
+      const str = String(text);
+      if (override === 'aspect_ratio') {
+        if (ASPECT_RATIOS.includes(str)) row.overrides.aspect_ratio = str;
+        else rowErrors.push(`unknown aspect ratio "${str}"`);
+      } else if (override === 'image_size') {
+        const size = str.toUpperCase();
+        if (IMAGE_SIZES.includes(size)) row.overrides.image_size = size;
+        else rowErrors.push(`unknown image size "${str}"`);
+      } else if (override === 'model') {
+        if (isKnownModel(str)) row.overrides.model = str;
+        else rowErrors.push(`unknown model "${str}"`);
+      } else {
+        const temperature = Number(str);
+        if (str !== '' && !isNaN(temperature) && temperature >= 0 && temperature <= 2) row.overrides.temperature = temperature;
+        else rowErrors.push(`temperature must be between 0 and 2, got "${str}"`);
+      }
+    } else if (typeof text !== 'object') {
+      row.variables[name.trim()] = String(text);
+    }
+  }
+
+  if (!row.promptName && !row.promptText) {
+    rowErrors.push('needs a prompt name or prompt text');
+  } else if (row.promptName && row.promptText) {
+    rowErrors.push('has both a prompt name and prompt text');
+  }
+
+  if (rowErrors.length > 0) {
+    errors.push(`Row ${line}: ${rowErrors.join('; ')}`);
+    return null;
+  }
+  return row;
+};
+
+/**
+ * Parse a CSV or JSON manifest. JSON is an array of rows (or { rows: [...] }) with the same fields as the CSV
+ * columns, plus an optional "variables" object. Invalid rows are left out and reported in errors.
+ */
+export const parseManifest = (fileName: string, text: string): { manifest: Manifest; errors: string[] } => {
+  const errors: string[] = [];
+  let records: Array<Record<string, unknown>> = [];
+  // Header is line 1 in a CSV, JSON rows are numbered from 1
+  let firstLine = 1;
+
+  if (/\.json$/i.test(fileName) || /^\s*[[{]/.test(text)) {
+    try {
+      const data = JSON.parse(text);
+      const rows = Array.isArray(data) ? data : data?.rows;
+      if (!Array.isArray(rows)) throw new Error('expected an array of rows');
+      records = rows.map((row: unknown) => (row && typeof row === 'object' && !Array.isArray(row) ? row : {}) as Record<string, unknown>);
+    } catch (error: any) {
+      errors.push(`Invalid JSON: ${error.message}`);
+    }
+  } else {
+    records = parseCsvRecords(text);
+    firstLine = 2;
+  }
+
+  const rows = records
+    .map((record, i) => parseRow(record, i + firstLine, errors))
+    .filter((row): row is ManifestRow => row !== null);
+
+  return { manifest: { name: fileName, rows }, errors };
+};
+
+/**
+ * Find a selected file by name (case-insensitive, extension optional)
+ */
+export const matchFile = (name: string, files: File[]): File | undefined => {
+  const wanted = name.toLowerCase();
+  return files.find(file => file.name.toLowerCase() === wanted)
+    ?? files.find(file => file.name.toLowerCase().replace(/\.[^.]+$/, '') === wanted);
+};
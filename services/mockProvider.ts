@@ -0,0 +1,203 @@
+import { ImageProvider, ImageGenerationRequest, ImageGenerationResult, ModelPricing, ProviderCapabilities, GenerationError, ASPECT_RATIOS, IMAGE_SIZES } from "./imageProvider";
+import { GenerationDiagnostics } from "../types";
+
+export const MOCK_MODEL = 'mock-image';
+
+export interface MockProviderOptions {
+  latencyMs?: number;   // Simulated request time
+  failureRate?: number; // 0..1, share of calls failing with a retryable 429
+  seed?: number;        // Seed for the failure sequence
+}
+
+// Fake rates so the cost pipeline has something to add up
+const PRICING: ModelPricing = {
+  input: 1.00 / 1_000_000,
+  output_text: 10.00 / 1_000_000,
+  output_image: 100.00 / 1_000_000,
+  output_imageflat: 0,
+};
+
+// Long edge in pixels per image size
+const SIZE_PIXELS: Record<string, number> = { '1K': 512, '2K': 768, '4K': 1024 };
+
+// Prompt directive forcing a failure, e.g. "[mock:fail=429]", "[mock:fail=500]" or "[mock:fail=safety]"
+const FAIL_DIRECTIVE = /\[mock:fail=(\d{3}|blocked|safety|text|empty)\]/i;
+
+// Responses without an image, as the real API reports them
+const NO_IMAGE_RESPONSES: Record<string, GenerationDiagnostics> = {
+  blocked: { blockReason: 'PROHIBITED_CONTENT', blockReasonMessage: 'Mock prompt blocked' },
+  safety: {
+    finishReason: 'IMAGE_SAFETY',
+    safetyRatings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH', blocked: true }],
+  },
+  text: { finishReason: 'STOP', text: "I can't generate that image, but here is a description instead." },
+  empty: { finishReason: 'NO_IMAGE' },
+};
+
+const ERROR_MESSAGES: Record<number, string> = {
+  429: 'RESOURCE_EXHAUSTED: Mock quota exceeded',
+  503: 'UNAVAILABLE: Mock model overloaded',
+};
+
+// FNV-1a string hash
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32 PRNG
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const createError = (status: number): Error & { status?: number } => {
+  const error: Error & { status?: number } = new Error(ERROR_MESSAGES[status] || `Mock error ${status}`);
+  error.status = status;
+  return error;
+};
+
+const delay = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(new Error('Request aborted'));
+  const timeoutId = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timeoutId);
+    reject(new Error('Request aborted'));
+  }, { once: true });
+});
+
+const getDimensions = (aspectRatio: string, imageSize: string): { width: number; height: number } => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const longEdge = SIZE_PIXELS[imageSize] ?? SIZE_PIXELS['1K'];
+  if (!w || !h) return { width: longEdge, height: longEdge };
+  return w >= h
+    ? { width: longEdge, height: Math.round(longEdge * h / w) }
+    : { width: Math.round(longEdge * w / h), height: longEdge };
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+/**
+ * Render a placeholder PNG whose colours and text are derived from the prompt
+ */
+const renderPlaceholder = (request: ImageGenerationRequest): string => {
+  const { width, height } = getDimensions(request.aspectRatio, request.imageSize);
+  const hue = hashString(request.prompt) % 360;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 60%, 35%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 60%, 20%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  const padding = Math.round(width * 0.08);
+  const fontSize = Math.max(12, Math.round(width / 28));
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.font = `bold ${fontSize * 1.4}px sans-serif`;
+  ctx.fillText(`MOCK ${request.aspectRatio} ${request.imageSize}`, padding, padding + fontSize);
+
+  ctx.font = `${fontSize}px sans-serif`;
+  const lines = wrapText(ctx, request.prompt, width - padding * 2);
+  const maxLines = Math.floor((height - padding * 3) / (fontSize * 1.3)) - 1;
+  lines.slice(0, maxLines).forEach((line, i) => {
+    ctx.fillText(line, padding, padding + fontSize * 3 + i * fontSize * 1.3);
+  });
+
+  ctx.font = `${Math.round(fontSize * 0.8)}px monospace`;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  const turn = Math.floor((request.history?.length ?? 0) / 2) + 1;
+  ctx.fillText(`${request.references.length} reference(s) | temp ${request.temperature.toFixed(1)} | turn ${turn}`, padding, height - padding);
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Offline provider rendering placeholder images, for developing the pipeline without network or key.
+ * Output and usage are deterministic per prompt; failures can be injected through options or
+ * a "[mock:fail=429]" / "[mock:fail=safety]" directive in the prompt text.
+ */
+export const createMockProvider = (options: MockProviderOptions = {}): ImageProvider => {
+  const { latencyMs = 800, failureRate = 0, seed = 1 } = options;
+  const random = createRandom(seed);
+
+  return {
+    id: 'mock',
+    models: [{ label: "Mock (offline)", value: MOCK_MODEL }],
+
+    capabilities(): ProviderCapabilities {
+      return {
+        requiresApiKey: false,
+        aspectRatios: ASPECT_RATIOS,
+        imageSizes: IMAGE_SIZES,
+        supportsTemperature: true,
+      };
+    },
+
+    pricing(): ModelPricing {
+      return PRICING;
+    },
+
+    async generate(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+      await delay(latencyMs, request.signal);
+
+      const historyImages = (request.history ?? []).reduce((sum, turn) => sum + (turn.references?.length ?? 0) + (turn.imageUrls?.length ?? 0), 0);
+      const input = Math.ceil(request.prompt.length / 4) + (request.references.length + historyImages) * 258;
+
+      const directive = request.prompt.match(FAIL_DIRECTIVE);
+      if (directive) {
+        const kind = directive[1].toLowerCase();
+        // Responses without an image still bill the prompt tokens
+        throw NO_IMAGE_RESPONSES[kind]
+          ? new GenerationError(NO_IMAGE_RESPONSES[kind], { total: input, input, output_image: 0, output_text: 0 })
+          : createError(parseInt(kind, 10));
+      }
+      if (failureRate > 0 && random() < failureRate) {
+        throw createError(429);
+      }
+
+      const hash = hashString(request.prompt);
+      const output_image = SIZE_PIXELS[request.imageSize] ? 1120 + (hash % 5) * 100 : 1290;
+      const output_text = hash % 200;
+
+      return {
+        imageUrl: renderPlaceholder(request),
+        usage: {
+          total: input + output_image + output_text,
+          input,
+          output_image,
+          output_text,
+        },
+      };
+    },
+  };
+};
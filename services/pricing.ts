@@ -0,0 +1,75 @@
+import { ModelPricing } from "./imageProvider";
+import { getProviderForModel } from "./providers";
+
+// One rate in the pricing document. Without imageSize it applies to every size of the model.
+export interface PriceEntry {
+  model: string;
+  imageSize?: string;
+  effectiveFrom: string;   // ISO date, the rate applies to calls made from then on
+  rates: ModelPricing;     // USD per token, output_imageflat per image
+}
+
+// Admin-editable document (config/pricing); calls it does not cover use the providers' bundled rates
+export interface PricingTable {
+  version: number;
+  updatedAt?: string;
+  updatedBy?: string;
+  entries: PriceEntry[];
+}
+
+export const EMPTY_PRICING: PricingTable = { version: 0, entries: [] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+/**
+ * Validate a pricing document. Throws with the first problem found.
+ */
+export const parsePricingTable = (data: unknown): PricingTable => {
+  if (!isRecord(data) || !Array.isArray(data.entries)) {
+    throw new Error("Pricing document needs an entries array");
+  }
+  const entries = data.entries.map((entry: unknown, index: number): PriceEntry => {
+    const label = `Pricing entry ${index + 1}`;
+    if (!isRecord(entry)) throw new Error(`${label}: must be an object`);
+    const { model, imageSize, effectiveFrom } = entry;
+    if (typeof model !== 'string' || !model) throw new Error(`${label}: missing model`);
+    if (imageSize !== undefined && typeof imageSize !== 'string') throw new Error(`${label}: imageSize must be a string`);
+    if (typeof effectiveFrom !== 'string' || isNaN(Date.parse(effectiveFrom))) {
+      throw new Error(`${label}: effectiveFrom must be a date`);
+    }
+    const source = isRecord(entry.rates) ? entry.rates : {};
+    const rate = (field: keyof ModelPricing): number => {
+      const value = source[field] ?? 0;
+      if (typeof value !== 'number' || value < 0) throw new Error(`${label}: ${field} must be a non-negative number`);
+      return value;
+    };
+    const rates: ModelPricing = {
+      input: rate('input'),
+      output_text: rate('output_text'),
+      output_image: rate('output_image'),
+      output_imageflat: rate('output_imageflat'),
+    };
+    return { model, imageSize: typeof imageSize === 'string' && imageSize ? imageSize : undefined, effectiveFrom, rates };
+  });
+  return {
+    version: typeof data.version === 'number' ? data.version : 0,
+    updatedAt: typeof data.updatedAt === 'string' ? data.updatedAt : undefined,
+    updatedBy: typeof data.updatedBy === 'string' ? data.updatedBy : undefined,
+    entries,
+  };
+};
+
+/**
+ * Rates for a call to model at imageSize made at the given time: the latest entry of the table already
+ * in effect, preferring one for that exact size, else the provider's bundled rates
+ */
+export const findRate = (table: PricingTable, model: string, imageSize: string, at: number = Date.now()): ModelPricing => {
+  const inEffect = table.entries.filter(e => e.model === model && Date.parse(e.effectiveFrom) <= at);
+  const exact = inEffect.filter(e => e.imageSize === imageSize);
+  const candidates = exact.length > 0 ? exact : inEffect.filter(e => !e.imageSize);
+  const latest = candidates.reduce<PriceEntry | null>(
+    (best, e) => !best || Date.parse(e.effectiveFrom) > Date.parse(best.effectiveFrom) ? e : best,
+    null
+  );
+  return latest ? latest.rates : getProviderForModel(model).pricing(model, imageSize);
+};
@@ -0,0 +1,140 @@
+import { Prompt, PromptData } from "../models/Prompt";
+import { Combo } from "../models/Combo";
+
+// Identifies an exported prompt library file; bump the version when the layout changes
+export const PROMPT_LIBRARY_FORMAT = 'banana-pic-gen-prompts';
+export const PROMPT_LIBRARY_VERSION = 1;
+
+export interface PromptLibrary {
+  format: typeof PROMPT_LIBRARY_FORMAT;
+  version: number;
+  exportedAt: string;   // ISO timestamp
+  prompts: PromptData[]; // In list order
+  prompt_before: string;
+  prompt_after: string;
+  combos: Combo[];
+}
+
+// What to do with an imported prompt whose name already exists
+export type ConflictStrategy = 'overwrite' | 'skip' | 'rename';
+
+export interface LibraryConflict {
+  name: string;
+  identical: boolean;
+}
+
+export const createPromptLibrary = (prompts: PromptData[], promptBefore: string = '', promptAfter: string = '', combos: Combo[] = []): PromptLibrary => ({
+  format: PROMPT_LIBRARY_FORMAT,
+  version: PROMPT_LIBRARY_VERSION,
+  exportedAt: new Date().toISOString(),
+  prompts: prompts.map(p => Prompt.fromJSON(p).toJSON()),
+  prompt_before: promptBefore,
+  prompt_after: promptAfter,
+  combos,
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const isCombo = (value: unknown): value is Combo =>
+  isRecord(value) && typeof value.name === 'string' && Array.isArray(value.prompts) && value.prompts.every((p: unknown) => typeof p === 'string');
+
+/**
+ * Read an exported library. Throws with a readable message when the file is not a valid library.
+ */
+export const parsePromptLibrary = (text: string): PromptLibrary => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  if (!isRecord(data) || data.format !== PROMPT_LIBRARY_FORMAT) {
+    throw new Error("File is not a prompt library export");
+  }
+  if (typeof data.version !== 'number' || data.version > PROMPT_LIBRARY_VERSION) {
+    throw new Error(`Unsupported library version ${data.version} (this app reads up to ${PROMPT_LIBRARY_VERSION})`);
+  }
+  if (!Array.isArray(data.prompts)) {
+    throw new Error('"prompts" must be a list');
+  }
+
+  const prompts = data.prompts.map((p: unknown, i: number) => {
+    try {
+      return Prompt.parse(p).toJSON();
+    } catch (error: any) {
+      throw new Error(`Prompt ${i + 1}: ${error.message}`);
+    }
+  });
+
+  return {
+    format: PROMPT_LIBRARY_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    prompts,
+    prompt_before: typeof data.prompt_before === 'string' ? data.prompt_before : '',
+    prompt_after: typeof data.prompt_after === 'string' ? data.prompt_after : '',
+    combos: Array.isArray(data.combos) ? data.combos.filter(isCombo) : [],
+  };
+};
+
+/**
+ * Imported prompts whose name already exists in the current list
+ */
+export const findConflicts = (current: PromptData[], imported: PromptData[]): LibraryConflict[] => {
+  return imported
+    .map(p => {
+      const existing = current.find(c => c.name === p.name);
+      if (!existing) return null;
+      return { name: p.name, identical: JSON.stringify(Prompt.fromJSON(existing).toJSON()) === JSON.stringify(p) };
+    })
+    .filter((c): c is LibraryConflict => c !== null);
+};
+
+const uniqueName = (name: string, taken: Set<string>): string => {
+  let candidate = `${name} (imported)`;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${name} (imported ${n})`;
+  }
+  return candidate;
+};
+
+/**
+ * Merge an imported library into the current prompts: new prompts are appended in file order,
+ * name conflicts follow the strategy. Current before/after text is kept unless it is empty.
+ */
+export const mergePromptLibrary = (
+  current: { prompts: PromptData[]; prompt_before: string; prompt_after: string; combos: Combo[] },
+  library: PromptLibrary,
+  strategy: ConflictStrategy
+): { prompts: PromptData[]; prompt_before: string; prompt_after: string; combos: Combo[] } => {
+  const prompts = [...current.prompts];
+  const taken = new Set(prompts.map(p => p.name));
+  const renamed = new Map<string, string>();
+
+  library.prompts.forEach(p => {
+    const index = prompts.findIndex(c => c.name === p.name);
+    if (index === -1) {
+      prompts.push(p);
+      taken.add(p.name);
+    } else if (strategy === 'overwrite') {
+      prompts[index] = p;
+    } else if (strategy === 'rename') {
+      const name = uniqueName(p.name, taken);
+      prompts.push({ ...p, name });
+      taken.add(name);
+      renamed.set(p.name, name);
+    }
+  });
+
+  // The library's sets mean the imported prompts, under their new names
+  const libraryCombos = library.combos.map(c => ({ ...c, prompts: c.prompts.map(name => renamed.get(name) ?? name) }));
+
+  const comboNames = new Set(current.combos.map(c => c.name));
+  return {
+    prompts,
+    prompt_before: current.prompt_before || library.prompt_before,
+    prompt_after: current.prompt_after || library.prompt_after,
+    combos: [...current.combos, ...libraryCombos.filter(c => !comboNames.has(c.name))],
+  };
+};
@@ -0,0 +1,137 @@
+import { ProcessingResult } from "../types";
+import { parseCsvRecords } from "./csv";
+
+// {{name}} placeholders; names may contain letters, digits, _ - and .
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+// Filled in automatically from the reference file of a task
+export const BUILTIN_VARIABLES = ['filename'];
+
+// Column of a sidecar table naming the reference file a row belongs to
+const FILE_COLUMNS = ['file', 'filename', 'file_name', 'image'];
+
+// Where variable values come from for a run
+export interface VariableSources {
+  runValues: Record<string, string>;                 // Same value for every task
+  filenamePattern: string;                           // e.g. "{product}_{color}", matched against the file name stem
+  fileTable: Record<string, Record<string, string>>; // Per-file values from a sidecar table, keyed by lower-cased file name
+}
+
+export const EMPTY_VARIABLE_SOURCES: VariableSources = { runValues: {}, filenamePattern: '', fileTable: {} };
+
+/**
+ * Unique variable names used in a template, in order of appearance
+ */
+export const extractVariables = (text: string): string[] => {
+  const names = new Set<string>();
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+};
+
+/**
+ * Replace {{name}} placeholders. Placeholders without a value are left in place so they can be reported.
+ */
+export const renderTemplate = (text: string, values: Record<string, string>): string => {
+  return text.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder
+  );
+};
+
+const fileStem = (fileName: string): string => fileName.replace(/\.[^.]+$/, '');
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Pull values out of a file name with a pattern like "{product}_{color}".
+ * Returns no values when the name does not match the pattern.
+ */
+export const parseFilename = (pattern: string, fileName: string): Record<string, string> => {
+  const trimmed = pattern.trim();
+  if (!trimmed) return {};
+
+  const names: string[] = [];
+  const source = trimmed
+    .split(/(\{[\w.-]+\})/)
+    .map(part => {
+      const name = part.match(/^\{([\w.-]+)\}$/)?.[1];
+      if (!name) return escapeRegExp(part);
+      names.push(name);
+      return '(.+?)';
+    })
+    .join('');
+
+  const match = fileStem(fileName).match(new RegExp(`^${source}$`));
+  if (!match) return {};
+  return Object.fromEntries(names.map((name, i) => [name, match[i + 1]]));
+};
+
+/**
+ * Read a sidecar CSV (one row per reference file, a "file" column plus one column per variable)
+ */
+export const parseFileTable = (text: string): Record<string, Record<string, string>> => {
+  const table: Record<string, Record<string, string>> = {};
+  for (const record of parseCsvRecords(text)) {
+    const fileKey = Object.keys(record).find(key => FILE_COLUMNS.includes(key.toLowerCase()));
+    if (!fileKey || !record[fileKey]) continue;
+    const { [fileKey]: fileName, ...values } = record;
+    table[fileName.toLowerCase()] = values;
+  }
+  return table;
+};
+
+/**
+ * Values for one task: run values, overridden by filename pattern values, overridden by the sidecar row.
+ * Sidecar rows match either the full file name or its stem.
+ */
+export const resolveVariables = (sources: VariableSources, file?: File): Record<string, string> => {
+  if (!file) return { ...sources.runValues };
+
+  const name = file.name.toLowerCase();
+  const row = sources.fileTable[name] ?? sources.fileTable[fileStem(name)] ?? {};
+  return {
+    ...sources.runValues,
+    ...parseFilename(sources.filenamePattern, file.name),
+    ...row,
+    filename: fileStem(file.name),
+  };
+};
+
+/**
+ * Parse "name=value" lines into run values (blank lines and lines without = are ignored)
+ */
+export const parseRunValues = (text: string): Record<string, string> => {
+  const values: Record<string, string> = {};
+  text.split(/\r?\n/).forEach(line => {
+    const index = line.indexOf('=');
+    if (index <= 0) return;
+    const name = line.slice(0, index).trim();
+    if (name) values[name] = line.slice(index + 1).trim();
+  });
+  return values;
+};
+
+// A task whose prompt still contains placeholders after rendering
+export interface UnresolvedVariables {
+  promptName: string;
+  fileName: string; // Empty for text-only tasks
+  missing: string[];
+}
+
+/**
+ * Placeholders left in rendered tasks, one entry per prompt/file group
+ */
+export const findUnresolvedVariables = (tasks: ProcessingResult[]): UnresolvedVariables[] => {
+  const seen = new Set<string>();
+  const unresolved: UnresolvedVariables[] = [];
+  tasks.forEach(task => {
+    if (seen.has(task.groupId)) return;
+    seen.add(task.groupId);
+    const missing = extractVariables(task.promptText);
+    if (missing.length > 0) {
+      unresolved.push({ promptName: task.promptName, fileName: task.originalFileName, missing });
+    }
+  });
+  return unresolved;
+};
@@ -0,0 +1,23 @@
+import { ImageProvider, ModelOption } from "./imageProvider";
+import { geminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+
+// The offline mock provider is available in dev builds, or when VITE_ENABLE_MOCK_PROVIDER=true
+const isMockEnabled = import.meta.env.DEV || import.meta.env.VITE_ENABLE_MOCK_PROVIDER === 'true';
+
+const PROVIDERS: ImageProvider[] = [
+  geminiProvider,
+  ...(isMockEnabled
+    ? [createMockProvider({ failureRate: parseFloat(import.meta.env.VITE_MOCK_FAILURE_RATE || '0') })]
+    : []),
+];
+
+export const DEFAULT_MODEL = 'gemini-2.5-flash-image';
+
+export const getModelOptions = (): ModelOption[] => PROVIDERS.flatMap(p => p.models);
+
+export const isKnownModel = (model: string): boolean => getModelOptions().some(m => m.value === model);
+
+export const getProviderForModel = (model: string): ImageProvider => {
+  return PROVIDERS.find(p => p.models.some(m => m.value === model)) ?? geminiProvider;
+};
@@ -0,0 +1,129 @@
+import { GenerationUsage, ProcessingResult } from "../types";
+import { dataUrlToBlob } from "./download";
+import { createZip, ZipEntry } from "./zip";
+import { MetadataOptions, metadataFromItem, embedMetadata } from "./imageMetadata";
+import { formatFileName, uniqueFileName } from "./fileNaming";
+
+// A finished image with everything needed to name it and describe it in a manifest
+export interface ExportItem {
+  blob: Blob;
+  mimeType: string;
+  createdAt: number;      // Epoch milliseconds
+  promptName: string;
+  promptText: string;
+  comboName?: string;
+  model: string;
+  aspectRatio: string;
+  imageSize: string;
+  temperature: number;
+  usage?: GenerationUsage;
+  cost?: number;
+  sourceNames: string[];  // Reference files, empty for text only
+  variationIndex: number;
+  variationCount: number;
+  refinement?: string;    // Follow-up instruction when this is a refined version
+  refinementIndex?: number; // 1-based
+}
+
+/**
+ * Export item for a completed result, or for one of its refinements when versionIndex is given
+ */
+export const resultToExportItem = async (res: ProcessingResult, versionIndex?: number): Promise<ExportItem | null> => {
+  const version = versionIndex === undefined ? undefined : res.versions?.[versionIndex];
+  const imageUrl = versionIndex === undefined ? res.imageUrl : version?.imageUrl;
+  if (!imageUrl) return null;
+  const blob = await dataUrlToBlob(imageUrl);
+  return {
+    blob,
+    mimeType: blob.type,
+    // When the image was generated, not when it is downloaded
+    createdAt: (version ? version.completedAt : res.completedAt) ?? Date.now(),
+    promptName: res.promptName,
+    promptText: res.promptText,
+    comboName: res.comboName,
+    model: res.model,
+    aspectRatio: res.aspectRatio,
+    imageSize: res.imageSize,
+    temperature: res.temperature,
+    usage: version ? version.usage : res.usage,
+    cost: version ? version.cost : res.cost,
+    sourceNames: res.files.map(f => f.name),
+    variationIndex: res.variationIndex,
+    variationCount: res.variationCount,
+    refinement: version?.instruction,
+    refinementIndex: version ? versionIndex! + 1 : undefined,
+  };
+};
+
+/**
+ * Completed images of a run: each completed result plus its completed refinements
+ */
+export const collectResultItems = async (results: ProcessingResult[]): Promise<ExportItem[]> => {
+  const items: ExportItem[] = [];
+  for (const res of results) {
+    if (res.status !== 'completed') continue;
+    const item = await resultToExportItem(res);
+    if (item) items.push(item);
+
+    for (const [index, version] of (res.versions || []).entries()) {
+      if (version.status !== 'completed') continue;
+      const versionItem = await resultToExportItem(res, index);
+      if (versionItem) items.push(versionItem);
+    }
+  }
+  return items;
+};
+
+/**
+ * Files to save for one image: the image (with embedded metadata when enabled) and an optional JSON sidecar
+ */
+export const exportFiles = async (item: ExportItem, name: string, options: MetadataOptions): Promise<Array<{ name: string; blob: Blob }>> => {
+  const metadata = metadataFromItem(item);
+  const files = [{ name, blob: options.embed ? await embedMetadata(item.blob, metadata) : item.blob }];
+  if (options.sidecar) {
+    files.push({ name: `${name}.json`, blob: new Blob([JSON.stringify(metadata, null, 2)], { type: 'application/json' }) });
+  }
+  return files;
+};
+
+/**
+ * ZIP of the images, named from the filename template, plus a manifest.json describing each file
+ */
+export const buildResultsZip = async (items: ExportItem[], fileNameTemplate: string, metadataOptions: MetadataOptions): Promise<Blob> => {
+  const taken = new Set<string>(['manifest.json']);
+  const files: Array<{ item: ExportItem; name: string }> = [];
+  for (const item of items) {
+    files.push({ item, name: uniqueFileName(await formatFileName(fileNameTemplate, item), taken) });
+  }
+
+  const manifest = {
+    generator: 'BananaPicGen',
+    exportedAt: new Date().toISOString(),
+    count: files.length,
+    totalCost: files.reduce((sum, f) => sum + (f.item.cost ?? 0), 0),
+    files: files.map(({ item, name }) => ({
+      file: name,
+      promptName: item.promptName,
+      promptText: item.promptText,
+      comboName: item.comboName,
+      refinement: item.refinement,
+      model: item.model,
+      aspectRatio: item.aspectRatio,
+      imageSize: item.imageSize,
+      temperature: item.temperature,
+      variation: item.variationCount > 1 ? `${item.variationIndex}/${item.variationCount}` : undefined,
+      sources: item.sourceNames,
+      usage: item.usage,
+      cost: item.cost,
+      createdAt: new Date(item.createdAt).toISOString(),
+    })),
+  };
+
+  const entries: ZipEntry[] = [];
+  for (const { item, name } of files) {
+    const date = new Date(item.createdAt);
+    (await exportFiles(item, name, metadataOptions)).forEach(file => entries.push({ name: file.name, data: file.blob, date }));
+  }
+  entries.push({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+  return createZip(entries);
+};
@@ -0,0 +1,152 @@
+import { ProcessingResult, RunMode } from "../types";
+import { PromptData } from "../models/Prompt";
+import { isKnownModel } from "./providers";
+import { VariableSources, EMPTY_VARIABLE_SOURCES, renderTemplate, resolveVariables } from "./promptTemplate";
+import { Manifest, matchFile } from "./manifest";
+
+// Parameters a single generation runs with
+export interface GenerationParams {
+  model: string;
+  aspectRatio: string;
+  imageSize: string;
+  temperature: number;
+}
+
+// Global selections of the action bar
+export interface RunSettings extends GenerationParams {
+  runMode: RunMode;
+  variations: number;
+}
+
+/**
+ * Final parameters for a prompt: its overrides win over the run settings
+ */
+export const resolveParams = (prompt: PromptData, settings: GenerationParams): GenerationParams => ({
+  model: prompt.model && isKnownModel(prompt.model) ? prompt.model : settings.model,
+  aspectRatio: prompt.aspect_ratio || settings.aspectRatio,
+  imageSize: prompt.image_size || settings.imageSize,
+  temperature: prompt.temperature ?? settings.temperature,
+});
+
+/**
+ * Combine before + prompt + after (unless skip_beforeafter_prompt is true)
+ */
+export const buildPromptText = (prompt: PromptData, beforeText: string = '', afterText: string = ''): string => {
+  if (prompt.skip_beforeafter_prompt) {
+    // Skip before/after text for this prompt
+    return prompt.prompt.trim();
+  }
+  return `${beforeText}${beforeText ? '\n' : ''}${prompt.prompt}${afterText ? '\n' : ''}${afterText}`.trim();
+};
+
+// One task per variation of a prompt/reference group
+const createGroupTasks = (
+  idPrefix: string,
+  groupId: string,
+  prompt: PromptData,
+  promptText: string,
+  groupFiles: File[],
+  settings: RunSettings
+): ProcessingResult[] => {
+  const params = resolveParams(prompt, settings);
+  // Independent generations per prompt/reference pair (prompt override wins over the run setting)
+  const variationCount = prompt.variations ?? settings.variations;
+
+  return Array.from({ length: variationCount }, (_, i) => ({
+    id: `${idPrefix}-${i}`,
+    files: groupFiles,
+    originalFileName: groupFiles[0]?.name ?? '',
+    promptName: prompt.name,
+    promptText,
+    groupId,
+    variationIndex: i + 1,
+    variationCount,
+    ...params,
+    status: 'pending' as const
+  }));
+};
+
+/**
+ * Expand enabled prompts x selected files into tasks.
+ * Combined: one task per prompt with all files; Per file: one task per file x prompt pair;
+ * Text only: one task per prompt with no files. Each pair yields one task per variation.
+ * {{variables}} are filled per task from the first reference file of its group.
+ */
+export const buildTasks = (
+  prompts: PromptData[],
+  files: File[],
+  settings: RunSettings,
+  promptBefore: string = '',
+  promptAfter: string = '',
+  variables: VariableSources = EMPTY_VARIABLE_SOURCES
+): ProcessingResult[] => {
+  const tasks: ProcessingResult[] = [];
+  const batchId = Date.now();
+
+  const filesToProcess = settings.runMode === 'text_only' ? [] : files;
+  const fileGroups = settings.runMode === 'per_file' ? filesToProcess.map(file => [file]) : [filesToProcess];
+
+  prompts.forEach(prompt => {
+    const template = buildPromptText(prompt, promptBefore, promptAfter);
+
+    fileGroups.forEach((groupFiles, groupIndex) => {
+      const groupId = `${prompt.name}-${batchId}-${groupIndex}`;
+      const fullPrompt = renderTemplate(template, resolveVariables(variables, groupFiles[0]));
+      tasks.push(...createGroupTasks(`${prompt.name}-${batchId}-${tasks.length}`, groupId, prompt, fullPrompt, groupFiles, settings));
+    });
+  });
+
+  return tasks;
+};
+
+/**
+ * Tasks planned by a manifest: one group per row with the row's files, prompt, values and overrides
+ * (the run mode is not used). Row overrides win over prompt overrides, row values win over run/file values.
+ * Rows naming unknown prompts or files that are not selected are reported and produce no tasks.
+ */
+export const buildManifestTasks = (
+  manifest: Manifest,
+  prompts: PromptData[],
+  files: File[],
+  settings: RunSettings,
+  promptBefore: string = '',
+  promptAfter: string = '',
+  variables: VariableSources = EMPTY_VARIABLE_SOURCES
+): { tasks: ProcessingResult[]; errors: string[] } => {
+  const tasks: ProcessingResult[] = [];
+  const errors: string[] = [];
+  const batchId = Date.now();
+
+  manifest.rows.forEach(row => {
+    const rowErrors: string[] = [];
+
+    const groupFiles: File[] = [];
+    row.files.forEach(name => {
+      const file = matchFile(name, files);
+      if (file) groupFiles.push(file);
+      else rowErrors.push(`file "${name}" is not among the selected files`);
+    });
+
+    // Saved prompts are looked up by name whether enabled or not
+    const saved = row.promptName ? prompts.find(p => p.name === row.promptName) : undefined;
+    if (row.promptName && !saved) {
+      rowErrors.push(`no prompt named "${row.promptName}"`);
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(`Row ${row.line}: ${rowErrors.join('; ')}`);
+      return;
+    }
+
+    const prompt: PromptData = {
+      ...(saved ?? { name: `Row ${row.line}`, prompt: row.promptText ?? '', enabled: true, skip_beforeafter_prompt: false }),
+      ...row.overrides
+    };
+    const values = { ...resolveVariables(variables, groupFiles[0]), ...row.variables };
+    const fullPrompt = renderTemplate(buildPromptText(prompt, promptBefore, promptAfter), values);
+
+    tasks.push(...createGroupTasks(`${prompt.name}-${batchId}-${tasks.length}`, `row${row.line}-${batchId}`, prompt, fullPrompt, groupFiles, settings));
+  });
+
+  return { tasks, errors };
+};
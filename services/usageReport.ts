@@ -0,0 +1,94 @@
+import { UsageLedgerEntry } from "./firebase";
+import { toCsv } from "./csv";
+
+export type ReportGrouping = 'day' | 'week' | 'month' | 'model' | 'prompt';
+
+export interface ReportRow {
+  key: string;       // Sort key: period start for time groupings, otherwise the label
+  label: string;
+  images: number;
+  tokens: number;
+  cost: number;
+}
+
+// Images an entry adds to the totals: 1 per generation, the delta for an admin adjustment
+const entryImages = (entry: UsageLedgerEntry): number =>
+  entry.adjustment ? entry.adjustment.images : entry.noImage ? 0 : 1;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+const dateKey = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+// Local-time bucket of a timestamp; weeks start on Monday
+const periodOf = (timestamp: number, grouping: 'day' | 'week' | 'month'): { key: string; label: string } => {
+  const d = new Date(timestamp);
+  if (grouping === 'month') {
+    return { key: `${d.getFullYear()}-${pad(d.getMonth() + 1)}`, label: d.toLocaleDateString(undefined, { year: 'numeric', month: 'long' }) };
+  }
+  if (grouping === 'week') {
+    const monday = new Date(d.getFullYear(), d.getMonth(), d.getDate() - ((d.getDay() + 6) % 7));
+    return { key: dateKey(monday), label: `Week of ${monday.toLocaleDateString()}` };
+  }
+  return { key: dateKey(d), label: d.toLocaleDateString(undefined, { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' }) };
+};
+
+/**
+ * Ledger entries summed per period (newest first), or per model / prompt (most expensive first)
+ */
+export const groupUsage = (
+  entries: UsageLedgerEntry[],
+  grouping: ReportGrouping,
+  modelLabel: (model: string) => string = model => model
+): ReportRow[] => {
+  const rows = new Map<string, ReportRow>();
+  entries.forEach(entry => {
+    // Admin corrections get their own row, never merged with a model or prompt of the same name
+    const { key, label } = (grouping === 'model' || grouping === 'prompt') && entry.adjustment
+      ? { key: 'adjustment', label: 'Admin adjustment' }
+      : grouping === 'model'
+        ? { key: `model/${entry.model}`, label: modelLabel(entry.model) }
+        : grouping === 'prompt'
+          ? { key: `prompt/${entry.promptName}`, label: entry.promptName }
+          : periodOf(entry.timestamp, grouping);
+    const row = rows.get(key) ?? { key, label, images: 0, tokens: 0, cost: 0 };
+    row.images += entryImages(entry);
+    row.tokens += entry.total;
+    row.cost += entry.cost;
+    rows.set(key, row);
+  });
+  const list = Array.from(rows.values());
+  return grouping === 'model' || grouping === 'prompt'
+    ? list.sort((a, b) => b.cost - a.cost)
+    : list.sort((a, b) => b.key.localeCompare(a.key));
+};
+
+/**
+ * One CSV line per ledger entry, for finance
+ */
+export const ledgerToCsv = (entries: UsageLedgerEntry[]): string => toCsv([
+  ['timestamp', 'model', 'image_size', 'prompt', 'prompt_set', 'refinement', 'no_image', 'input_tokens', 'output_text_tokens', 'output_image_tokens', 'total_tokens', 'images', 'cost_usd', 'adjusted_by', 'adjustment_reason'],
+  ...entries.map(e => [
+    new Date(e.timestamp).toISOString(),
+    e.model,
+    e.imageSize,
+    e.promptName,
+    e.comboName ?? '',
+    e.refinement ? 'yes' : '',
+    e.noImage ? 'yes' : '',
+    e.input,
+    e.output_text,
+    e.output_image,
+    e.total,
+    entryImages(e),
+    e.cost.toFixed(6),
+    e.adjustment?.by ?? '',
+    e.adjustment?.reason ?? '',
+  ]),
+]);
+
+/**
+ * The grouped rows as CSV
+ */
+export const reportToCsv = (rows: ReportRow[], grouping: ReportGrouping): string => toCsv([
+  [grouping, 'images', 'tokens', 'cost_usd'],
+  ...rows.map(r => [grouping === 'model' || grouping === 'prompt' ? r.label : r.key, r.images, r.tokens, r.cost.toFixed(6)]),
+]);
@@ -1,16 +1,64 @@
-export interface AppConfig {
-  prompts: Record<string, string>;
-  combos: Record<string, string>;
+// How selected reference files are combined with prompts when building tasks
+// - combined: every file is sent together with each prompt
+// - per_file: every file x prompt pair becomes its own task
+// - text_only: no reference files, every prompt runs on its own
+export type RunMode = 'combined' | 'per_file' | 'text_only';
+
+// Token counts of a single generation
+export interface GenerationUsage {
+  total: number;
+  input: number;
+  output_image: number;
+  output_text: number;
+}
+
+// Why a response carried no image (or what else came back with one)
+export interface GenerationDiagnostics {
+  finishReason?: string;        // e.g. STOP, SAFETY, IMAGE_SAFETY, NO_IMAGE
+  finishMessage?: string;
+  blockReason?: string;         // Set when the prompt itself was blocked
+  blockReasonMessage?: string;
+  safetyRatings?: Array<{ category: string; probability?: string; blocked?: boolean }>;
+  text?: string;                // Text parts returned by the model
+}
+
+// A refined version of a result, produced by a follow-up instruction
+export interface RefinementVersion {
+  id: string;
+  instruction: string;
+  status: 'processing' | 'completed' | 'failed';
+  imageUrl?: string;
+  thoughtSignature?: string;
+  usage?: GenerationUsage;
+  cost?: number;
+  completedAt?: number;     // Epoch milliseconds, when the image was returned
+  error?: string;
+  diagnostics?: GenerationDiagnostics;
 }
 
 export interface ProcessingResult {
   id: string;
   files: File[];
+  originalFileName: string; // Source file this result is named after (empty in text-only mode)
   promptName: string;
   promptText: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  comboName?: string;       // Prompt set that was active when the batch was queued
+  groupId: string;          // Results sharing a prompt/reference pair are grouped under one heading
+  variationIndex: number;   // 1-based
+  variationCount: number;
+  model: string;
+  aspectRatio: string;
+  imageSize: string;
+  temperature: number;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   imageUrl?: string;
+  thoughtSignature?: string;
+  usage?: GenerationUsage;
+  cost?: number;
+  completedAt?: number;     // Epoch milliseconds, when the image was returned
   error?: string;
+  diagnostics?: GenerationDiagnostics;
+  versions?: RefinementVersion[]; // Refinement history, oldest first
 }
 
 export interface LogEntry {
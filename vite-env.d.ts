@@ -0,0 +1,7 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_FIREBASE_CONFIG?: string;
+  readonly VITE_ENABLE_MOCK_PROVIDER?: string;
+  readonly VITE_MOCK_FAILURE_RATE?: string;
+}